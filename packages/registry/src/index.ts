@@ -1,10 +1,55 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+	ErrorCode,
+	McpError,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { McpAgent } from "agents/mcp";
 import { z } from "zod";
 
-import type { Env, DaemonEntry } from "./types";
-import { loadRegistry, addActivityEvent, saveAnnouncedToKV, getAnnouncedFromKV } from "./lib/kv";
-import { getDaemonCheckMinute, healthCheckDaemon } from "./lib/health";
+import type { Env, DaemonEntry, ActivityEvent } from "./types";
+import {
+	loadRegistry,
+	loadActivityFeed,
+	getActivityEvent,
+	openActivityStream,
+	getVouchPublicKey,
+	ACTIVITY_EVENT_TYPES,
+} from "./lib/kv";
+import { describeActivityEvent, renderActivityFeed } from "./lib/feeds";
+import type { FeedFormat } from "./lib/feeds";
+import {
+	ACTIVITY_RESOURCE_URI,
+	MAX_RECONNECT_ATTEMPTS,
+	readActivityStream,
+	reconnectDelay,
+} from "./lib/activity-stream";
+import { activityQueryShape, parseActivityQuery } from "./lib/activity-log";
+import {
+	applyLifecycle,
+	getLifecyclePolicy,
+	isCheckDue,
+} from "./lib/lifecycle";
+import type { LifecycleTransition } from "./lib/lifecycle";
+import {
+	getDaemonCheckMinute,
+	getDaemonCrawlHour,
+	healthCheckDaemon,
+} from "./lib/health";
+import { crawlDaemonPeers } from "./lib/gossip";
+import {
+	getFederatedRegistries,
+	syncFederatedRegistry,
+} from "./lib/federation";
+import { indexDaemonContent, removeDaemonContent } from "./lib/fulltext";
+import { searchFilterShape, parseSearchFilters } from "./lib/filters";
+import {
+	limitShape,
+	pageShape,
+	searchPageShape,
+	parsePageOptions,
+} from "./lib/paginate";
 import {
 	META_TOOLS,
 	getOrientation,
@@ -20,12 +65,31 @@ import {
 	REGISTRY_TOOLS,
 	registryList,
 	registrySearch,
+	registryGet,
 	registryAnnounce,
+	registryVerify,
+	registryReverify,
+	reverifyEntry,
+	isReverifyDue,
+	registryUpdate,
+	parseUpdateArgs,
+	updateArgsShape,
+	recordHealthChecks,
+	registryWithdraw,
+	registryVouch,
+	registryVouches,
 	registryHealthCheck,
+	registryUptime,
 	registryActivity,
-	discoverCapabilities,
+	registrySubscribe,
+	registryUnsubscribe,
+	registryKnownDaemons,
+	registryDiscovered,
+	registryCapabilities,
 } from "./tools/registry";
 
+export { RegistryState } from "./registry-state";
+
 const TOOLS = [...META_TOOLS, ...REGISTRY_TOOLS];
 
 // CORS headers
@@ -36,8 +100,70 @@ const corsHeaders = {
 	"Access-Control-Allow-Headers": "Content-Type",
 };
 
+// Serve /feed.atom, /feed.rss or /feed.json, optionally filtered by ?type= and ?tag= (each repeatable)
+async function handleFeedRequest(
+	url: URL,
+	format: FeedFormat,
+	env: Env,
+): Promise<Response> {
+	const types = url.searchParams.getAll("type");
+	const unknownType = types.find(
+		(t) => !(ACTIVITY_EVENT_TYPES as string[]).includes(t),
+	);
+	if (unknownType) {
+		return new Response(`Unknown event type: ${unknownType}`, { status: 400 });
+	}
+	const tags = url.searchParams.getAll("tag").map((t) => t.toLowerCase());
+
+	// Tags are resolved to daemons up front so the filter applies before the feed's event limit.
+	// Events from before daemon_id was recorded are matched by URL.
+	let daemons: { daemon_ids?: string[]; daemon_urls?: string[] } = {};
+	if (tags.length > 0) {
+		const { entries } = await loadRegistry(env);
+		const tagged = entries.filter((d) =>
+			(d.tags || []).some((t) => tags.includes(t.toLowerCase())),
+		);
+		daemons = {
+			daemon_ids: tagged.map((d) => d.id),
+			daemon_urls: tagged.map((d) => d.url),
+		};
+	}
+
+	const events = await loadActivityFeed(env, {
+		types: types.length > 0 ? (types as ActivityEvent["type"][]) : undefined,
+		...daemons,
+	});
+
+	const { body, contentType } = renderActivityFeed(
+		format,
+		events,
+		url.origin,
+		url.href,
+	);
+	return new Response(body, {
+		headers: {
+			"Content-Type": contentType,
+			"Access-Control-Allow-Origin": "*",
+			"Cache-Control": "public, max-age=60",
+		},
+	});
+}
+
+// Client IP for rate limiting
+function getClientIp(request: Request): string {
+	return (
+		request.headers.get("CF-Connecting-IP") ||
+		request.headers.get("X-Forwarded-For")?.split(",")[0] ||
+		"unknown"
+	);
+}
+
 // JSON-RPC handler
-async function handleJsonRpc(body: any, kv?: KVNamespace, clientIp?: string): Promise<Response> {
+async function handleJsonRpc(
+	body: any,
+	env?: Env,
+	clientIp?: string,
+): Promise<Response> {
 	const { method, params, id } = body;
 
 	try {
@@ -45,14 +171,14 @@ async function handleJsonRpc(body: any, kv?: KVNamespace, clientIp?: string): Pr
 		if (method === "tools/list") {
 			return new Response(
 				JSON.stringify({ jsonrpc: "2.0", result: { tools: TOOLS }, id }),
-				{ headers: corsHeaders }
+				{ headers: corsHeaders },
 			);
 		}
 
 		// tools/call
 		if (method === "tools/call") {
 			const toolName = params?.name;
-			const registry = await loadRegistry(kv);
+			const registry = await loadRegistry(env);
 
 			// Meta tools
 			if (toolName === "get_orientation") {
@@ -72,7 +198,12 @@ async function handleJsonRpc(body: any, kv?: KVNamespace, clientIp?: string): Pr
 				return jsonRpcResponse(JSON.stringify(status, null, 2), id);
 			}
 			if (toolName === "get_capabilities") {
-				const caps = getCapabilities(REGISTRY_TOOLS.map(t => ({ name: t.name, description: t.description })));
+				const caps = getCapabilities(
+					REGISTRY_TOOLS.map((t) => ({
+						name: t.name,
+						description: t.description,
+					})),
+				);
 				return jsonRpcResponse(JSON.stringify(caps, null, 2), id);
 			}
 			if (toolName === "get_changelog") {
@@ -85,51 +216,281 @@ async function handleJsonRpc(body: any, kv?: KVNamespace, clientIp?: string): Pr
 
 			// Registry tools
 			if (toolName === "daemon_registry_list") {
-				const { entries, updated } = await registryList(kv);
-				return jsonRpcResponse(JSON.stringify({ count: entries.length, daemons: entries, updated }, null, 2), id);
+				const args = params?.arguments || {};
+				const { page, error } = parsePageOptions(args);
+				if (!page) {
+					return jsonRpcError(-32602, `Invalid paging: ${error}`, id);
+				}
+				const { entries, total, next_cursor, updated } = await registryList(
+					env,
+					page,
+					args.include_archived === true,
+				);
+				return jsonRpcResponse(
+					JSON.stringify(
+						{
+							count: entries.length,
+							total,
+							daemons: entries,
+							next_cursor,
+							updated,
+						},
+						null,
+						2,
+					),
+					id,
+				);
 			}
 			if (toolName === "daemon_registry_search") {
-				const { query, tag, status } = params?.arguments || {};
-				const entries = await registrySearch(kv, query, tag, status);
-				return jsonRpcResponse(JSON.stringify({ query, tag, status, count: entries.length, daemons: entries }, null, 2), id);
+				const {
+					query,
+					content,
+					section,
+					limit,
+					cursor,
+					sort,
+					order,
+					...filterArgs
+				} = params?.arguments || {};
+				const { filters, error } = parseSearchFilters(filterArgs);
+				if (!filters) {
+					return jsonRpcError(-32602, `Invalid filters: ${error}`, id);
+				}
+				const paging = parsePageOptions(
+					{ limit, cursor, sort, order },
+					searchPageShape,
+				);
+				if (!paging.page) {
+					return jsonRpcError(-32602, `Invalid paging: ${paging.error}`, id);
+				}
+				const contentQuery = content ? { query: content, section } : undefined;
+				const { entries, total, next_cursor } = await registrySearch(
+					env,
+					query,
+					filters,
+					paging.page,
+					contentQuery,
+				);
+				return jsonRpcResponse(
+					JSON.stringify(
+						{
+							query,
+							filters,
+							content,
+							section,
+							count: entries.length,
+							total,
+							daemons: entries,
+							next_cursor,
+						},
+						null,
+						2,
+					),
+					id,
+				);
+			}
+			if (toolName === "daemon_registry_get") {
+				const args = params?.arguments || {};
+				if (!args.id && !args.url) {
+					return jsonRpcError(-32602, "Missing required field: id or url", id);
+				}
+				const result = await registryGet(env, { id: args.id, url: args.url });
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
 			}
 			if (toolName === "daemon_registry_announce") {
 				const args = params?.arguments || {};
 				if (!args.url || !args.owner) {
-					return jsonRpcError(-32602, "Missing required fields: url and owner", id);
+					return jsonRpcError(
+						-32602,
+						"Missing required fields: url and owner",
+						id,
+					);
+				}
+				const result = await registryAnnounce(
+					env,
+					{
+						id: args.id, // Optional - auto-derived from URL if not provided
+						url: args.url,
+						owner: args.owner,
+						role: args.role,
+						focus: args.focus,
+						protocol: args.protocol || "unknown",
+						mcp_url: args.mcp_url,
+						tags: args.tags || [],
+					},
+					clientIp,
+				);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_verify") {
+				const args = params?.arguments || {};
+				if (!args.id && !args.url) {
+					return jsonRpcError(-32602, "Missing required field: id or url", id);
+				}
+				const result = await registryVerify(
+					env,
+					{ id: args.id, url: args.url },
+					args.owner_secret,
+					clientIp,
+				);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_reverify") {
+				const args = params?.arguments || {};
+				if (!args.id && !args.url) {
+					return jsonRpcError(-32602, "Missing required field: id or url", id);
+				}
+				const result = await registryReverify(env, {
+					id: args.id,
+					url: args.url,
+				});
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_update") {
+				const args = params?.arguments || {};
+				if (!args.id || !args.url || !args.owner_secret) {
+					return jsonRpcError(
+						-32602,
+						"Missing required fields: id, url and owner_secret",
+						id,
+					);
+				}
+				const { target, changes, error } = parseUpdateArgs(args);
+				if (!target || !changes) {
+					return jsonRpcError(-32602, `Invalid arguments: ${error}`, id);
 				}
-				const result = await registryAnnounce(kv, {
-					id: args.id, // Optional - auto-derived from URL if not provided
+				const result = await registryUpdate(env, target, changes);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_withdraw") {
+				const args = params?.arguments || {};
+				if (!args.id || !args.url || !args.owner_secret) {
+					return jsonRpcError(
+						-32602,
+						"Missing required fields: id, url and owner_secret",
+						id,
+					);
+				}
+				const result = await registryWithdraw(
+					env,
+					{ id: args.id, url: args.url, owner_secret: args.owner_secret },
+					args.reason,
+				);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_vouch") {
+				const args = params?.arguments || {};
+				if (!args.id || !args.url || !args.owner_secret) {
+					return jsonRpcError(
+						-32602,
+						"Missing required fields: id, url and owner_secret",
+						id,
+					);
+				}
+				if (!args.target_id && !args.target_url) {
+					return jsonRpcError(
+						-32602,
+						"Missing required field: target_id or target_url",
+						id,
+					);
+				}
+				const result = await registryVouch(
+					env,
+					{ id: args.id, url: args.url, owner_secret: args.owner_secret },
+					{ id: args.target_id, url: args.target_url },
+					{ statement: args.statement, revoke: args.revoke === true },
+				);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_vouches") {
+				const args = params?.arguments || {};
+				if (!args.id && !args.url) {
+					return jsonRpcError(-32602, "Missing required field: id or url", id);
+				}
+				const result = await registryVouches(env, {
+					id: args.id,
 					url: args.url,
-					owner: args.owner,
-					role: args.role,
-					focus: args.focus,
-					protocol: args.protocol || "unknown",
-					mcp_url: args.mcp_url,
-					tags: args.tags || [],
-				}, clientIp);
+				});
 				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
 			}
 			if (toolName === "daemon_registry_health_check") {
-				const url = params?.arguments?.url;
-				if (!url) {
-					return jsonRpcError(-32602, "Missing required field: url", id);
+				const args = params?.arguments || {};
+				if (!args.id && !args.url) {
+					return jsonRpcError(-32602, "Missing required field: id or url", id);
 				}
-				const result = await registryHealthCheck(kv, url);
+				const result = await registryHealthCheck(env, {
+					id: args.id,
+					url: args.url,
+				});
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_uptime") {
+				const args = params?.arguments || {};
+				if (!args.id && !args.url) {
+					return jsonRpcError(-32602, "Missing required field: id or url", id);
+				}
+				const result = await registryUptime(env, {
+					id: args.id,
+					url: args.url,
+				});
 				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
 			}
 			if (toolName === "daemon_registry_activity") {
-				const { limit, type } = params?.arguments || {};
-				const result = await registryActivity(kv, limit, type);
+				const { query, error } = parseActivityQuery(params?.arguments);
+				if (!query) {
+					return jsonRpcError(-32602, `Invalid params: ${error}`, id);
+				}
+				const result = await registryActivity(env, query);
 				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
 			}
-			if (toolName === "daemon_registry_capabilities") {
-				const url = params?.arguments?.url;
+			if (toolName === "daemon_registry_subscribe") {
+				const { url, types, tags, daemon_ids } = params?.arguments || {};
 				if (!url) {
 					return jsonRpcError(-32602, "Missing required field: url", id);
 				}
-				const entry = registry.entries.find(e => e.url === url || e.mcp_url === url);
-				const result = await discoverCapabilities(url, entry?.mcp_url);
+				const result = await registrySubscribe(
+					env,
+					url,
+					{ types, tags, daemon_ids },
+					clientIp,
+				);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_unsubscribe") {
+				const { subscription_id, secret } = params?.arguments || {};
+				if (!subscription_id || !secret) {
+					return jsonRpcError(
+						-32602,
+						"Missing required fields: subscription_id and secret",
+						id,
+					);
+				}
+				const result = await registryUnsubscribe(env, subscription_id, secret);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (
+				toolName === "get_known_daemons" ||
+				toolName === "daemon_registry_discovered"
+			) {
+				const { page, error } = parsePageOptions(params?.arguments, limitShape);
+				if (!page) {
+					return jsonRpcError(-32602, `Invalid paging: ${error}`, id);
+				}
+				const result =
+					toolName === "get_known_daemons"
+						? await registryKnownDaemons(env, page)
+						: await registryDiscovered(env, page);
+				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
+			}
+			if (toolName === "daemon_registry_capabilities") {
+				const args = params?.arguments || {};
+				if (!args.id && !args.url) {
+					return jsonRpcError(-32602, "Missing required field: id or url", id);
+				}
+				const result = await registryCapabilities(env, {
+					id: args.id,
+					url: args.url,
+				});
 				return jsonRpcResponse(JSON.stringify(result, null, 2), id);
 			}
 
@@ -149,14 +510,14 @@ function jsonRpcResponse(text: string, id: any): Response {
 			result: { content: [{ type: "text", text }] },
 			id,
 		}),
-		{ headers: corsHeaders }
+		{ headers: corsHeaders },
 	);
 }
 
 function jsonRpcError(code: number, message: string, id: any): Response {
 	return new Response(
 		JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id }),
-		{ headers: corsHeaders }
+		{ headers: corsHeaders },
 	);
 }
 
@@ -168,71 +529,231 @@ export class RegistryMCP extends McpAgent {
 	});
 
 	async init() {
-		const getKV = () => (this.env as Env)?.REGISTRY_DATA;
+		const getEnv = () => this.env as Env | undefined;
+		const getClientIp = () => {
+			const clientIp = this.props?.clientIp;
+			return typeof clientIp === "string" ? clientIp : undefined;
+		};
 
 		// Meta tools
-		this.server.tool("get_orientation", "START HERE - Community Daemon Registry", {}, async () => {
-			return { content: [{ type: "text", text: getOrientation() }] };
-		});
+		this.server.tool(
+			"get_orientation",
+			"START HERE - Community Daemon Registry",
+			{},
+			async () => {
+				return { content: [{ type: "text", text: getOrientation() }] };
+			},
+		);
 
-		this.server.tool("get_mcp_config", "Get MCP configuration snippet", {}, async () => {
-			return { content: [{ type: "text", text: JSON.stringify(getMcpConfig(), null, 2) }] };
-		});
+		this.server.tool(
+			"get_mcp_config",
+			"Get MCP configuration snippet",
+			{},
+			async () => {
+				return {
+					content: [
+						{ type: "text", text: JSON.stringify(getMcpConfig(), null, 2) },
+					],
+				};
+			},
+		);
 
-		this.server.tool("get_protocol_info", "Get protocol details", {}, async () => {
-			return { content: [{ type: "text", text: getProtocolInfo() }] };
-		});
+		this.server.tool(
+			"get_protocol_info",
+			"Get protocol details",
+			{},
+			async () => {
+				return { content: [{ type: "text", text: getProtocolInfo() }] };
+			},
+		);
 
-		this.server.tool("ai_briefing", "AI-specific usage guidance", {}, async () => {
-			return { content: [{ type: "text", text: getAiBriefing() }] };
-		});
+		this.server.tool(
+			"ai_briefing",
+			"AI-specific usage guidance",
+			{},
+			async () => {
+				return { content: [{ type: "text", text: getAiBriefing() }] };
+			},
+		);
 
 		this.server.tool("get_status", "Get registry status", {}, async () => {
-			const registry = await loadRegistry(getKV());
+			const registry = await loadRegistry(getEnv());
 			const status = await getStatus(registry, TOOLS.length);
-			return { content: [{ type: "text", text: JSON.stringify(status, null, 2) }] };
+			return {
+				content: [{ type: "text", text: JSON.stringify(status, null, 2) }],
+			};
 		});
 
-		this.server.tool("get_capabilities", "Get categorized list of tools", {}, async () => {
-			const caps = getCapabilities(REGISTRY_TOOLS.map(t => ({ name: t.name, description: t.description })));
-			return { content: [{ type: "text", text: JSON.stringify(caps, null, 2) }] };
-		});
+		this.server.tool(
+			"get_capabilities",
+			"Get categorized list of tools",
+			{},
+			async () => {
+				const caps = getCapabilities(
+					REGISTRY_TOOLS.map((t) => ({
+						name: t.name,
+						description: t.description,
+					})),
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(caps, null, 2) }],
+				};
+			},
+		);
 
 		this.server.tool("get_changelog", "Get version history", {}, async () => {
 			return { content: [{ type: "text", text: getChangelog() }] };
 		});
 
-		this.server.tool("daemon_registry_random", "Discover a random daemon", {}, async () => {
-			const registry = await loadRegistry(getKV());
-			const result = await getRandomDaemon(registry.entries);
-			return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-		});
+		this.server.tool(
+			"daemon_registry_random",
+			"Discover a random daemon",
+			{},
+			async () => {
+				const registry = await loadRegistry(getEnv());
+				const result = await getRandomDaemon(registry.entries);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
 
 		// Registry tools
-		this.server.tool("daemon_registry_list", "List all daemons", {}, async () => {
-			const { entries, updated } = await registryList(getKV());
-			return { content: [{ type: "text", text: JSON.stringify({ count: entries.length, daemons: entries, updated }, null, 2) }] };
-		});
+		this.server.tool(
+			"daemon_registry_list",
+			"List daemons (paginated)",
+			{
+				...pageShape,
+				include_archived: z
+					.boolean()
+					.optional()
+					.describe("Include archived daemons"),
+			},
+			async ({ limit, cursor, sort, order, include_archived }) => {
+				const { entries, total, next_cursor, updated } = await registryList(
+					getEnv(),
+					{ limit, cursor, sort, order },
+					include_archived,
+				);
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(
+								{
+									count: entries.length,
+									total,
+									daemons: entries,
+									next_cursor,
+									updated,
+								},
+								null,
+								2,
+							),
+						},
+					],
+				};
+			},
+		);
 
 		this.server.tool(
 			"daemon_registry_search",
-			"Search daemons",
+			"Search daemons (ranked by relevance)",
 			{
 				query: z.string().optional().describe("Search query"),
-				tag: z.string().optional().describe("Filter by tag"),
-				status: z.enum(["mcp", "web", "offline"]).optional().describe("Filter by status"),
+				...searchFilterShape,
+				content: z
+					.string()
+					.optional()
+					.describe("Full-text query over daemon.md content"),
+				section: z
+					.string()
+					.optional()
+					.describe(
+						"Restrict content query to a daemon.md section (e.g., TELOS)",
+					),
+				...searchPageShape,
+			},
+			async ({
+				query,
+				content,
+				section,
+				limit,
+				cursor,
+				sort,
+				order,
+				...filters
+			}) => {
+				const contentQuery = content ? { query: content, section } : undefined;
+				const { entries, total, next_cursor } = await registrySearch(
+					getEnv(),
+					query,
+					filters,
+					{ limit, cursor, sort, order },
+					contentQuery,
+				);
+				return {
+					content: [
+						{
+							type: "text",
+							text: JSON.stringify(
+								{
+									query,
+									filters,
+									content,
+									section,
+									count: entries.length,
+									total,
+									daemons: entries,
+									next_cursor,
+								},
+								null,
+								2,
+							),
+						},
+					],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_get",
+			"Look up a daemon by ID, URL or MCP URL",
+			{
+				id: z
+					.string()
+					.optional()
+					.describe("Daemon ID (e.g., io.saltedkeys.swift)"),
+				url: z
+					.string()
+					.optional()
+					.describe("Daemon URL or MCP URL (used if id is not provided)"),
+			},
+			async ({ id, url }) => {
+				if (!id && !url) {
+					return {
+						content: [
+							{ type: "text", text: "Missing required field: id or url" },
+						],
+					};
+				}
+				const result = await registryGet(getEnv(), { id, url });
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
 			},
-			async ({ query, tag, status }) => {
-				const entries = await registrySearch(getKV(), query, tag, status);
-				return { content: [{ type: "text", text: JSON.stringify({ query, tag, status, count: entries.length, daemons: entries }, null, 2) }] };
-			}
 		);
 
 		this.server.tool(
 			"daemon_registry_announce",
 			"Register a new daemon",
 			{
-				id: z.string().optional().describe("Namespace-based ID (auto-derived from URL if not provided)"),
+				id: z
+					.string()
+					.optional()
+					.describe(
+						"Namespace-based ID (auto-derived from URL if not provided)",
+					),
 				url: z.string().describe("Daemon URL"),
 				owner: z.string().describe("Owner name"),
 				role: z.string().optional().describe("Role/title"),
@@ -242,52 +763,472 @@ export class RegistryMCP extends McpAgent {
 				tags: z.array(z.string()).optional().describe("Tags"),
 			},
 			async ({ id, url, owner, role, focus, protocol, mcp_url, tags }) => {
-				const result = await registryAnnounce(getKV(), {
-					id, // Optional - auto-derived from URL if not provided
-					url, owner, role, focus,
-					protocol: protocol || "unknown",
-					mcp_url,
-					tags: tags || [],
-				});
-				return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-			}
+				const result = await registryAnnounce(
+					getEnv(),
+					{
+						id, // Optional - auto-derived from URL if not provided
+						url,
+						owner,
+						role,
+						focus,
+						protocol: protocol || "unknown",
+						mcp_url,
+						tags: tags || [],
+					},
+					getClientIp(),
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_verify",
+			"Verify daemon domain ownership",
+			{
+				id: z.string().optional().describe("Daemon ID"),
+				url: z
+					.string()
+					.optional()
+					.describe("Daemon URL (used if id is not provided)"),
+				owner_secret: z
+					.string()
+					.optional()
+					.describe(
+						"Owner secret from announce/verify (omit to be issued a new proof token)",
+					),
+			},
+			async ({ id, url, owner_secret }) => {
+				if (!id && !url) {
+					return {
+						content: [
+							{ type: "text", text: "Missing required field: id or url" },
+						],
+					};
+				}
+				const result = await registryVerify(
+					getEnv(),
+					{ id, url },
+					owner_secret,
+					getClientIp(),
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_reverify",
+			"Re-check daemon ownership proof",
+			{
+				id: z.string().optional().describe("Daemon ID"),
+				url: z
+					.string()
+					.optional()
+					.describe("Daemon URL (used if id is not provided)"),
+			},
+			async ({ id, url }) => {
+				if (!id && !url) {
+					return {
+						content: [
+							{ type: "text", text: "Missing required field: id or url" },
+						],
+					};
+				}
+				const result = await registryReverify(getEnv(), { id, url });
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_update",
+			"Update your daemon's entry",
+			updateArgsShape,
+			async ({ id, url, owner_secret, ...changes }) => {
+				const result = await registryUpdate(
+					getEnv(),
+					{ id, url, owner_secret },
+					changes,
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_withdraw",
+			"Withdraw your daemon from the registry",
+			{
+				id: z.string().describe("Daemon ID"),
+				url: z.string().describe("Daemon URL (must match the entry)"),
+				owner_secret: z.string().describe("Owner secret from announce/verify"),
+				reason: z.string().optional().describe("Reason for withdrawal"),
+			},
+			async ({ id, url, owner_secret, reason }) => {
+				const result = await registryWithdraw(
+					getEnv(),
+					{ id, url, owner_secret },
+					reason,
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_vouch",
+			"Vouch for another daemon's identity (verified owners only)",
+			{
+				id: z.string().describe("Your daemon's ID"),
+				url: z.string().describe("Your daemon's URL (must match the entry)"),
+				owner_secret: z.string().describe("Owner secret from announce/verify"),
+				target_id: z
+					.string()
+					.optional()
+					.describe("ID of the daemon you vouch for"),
+				target_url: z
+					.string()
+					.optional()
+					.describe("URL of the daemon you vouch for (if no target_id)"),
+				statement: z.string().optional().describe("How you know them"),
+				revoke: z.boolean().optional().describe("Withdraw an earlier vouch"),
+			},
+			async ({
+				id,
+				url,
+				owner_secret,
+				target_id,
+				target_url,
+				statement,
+				revoke,
+			}) => {
+				if (!target_id && !target_url) {
+					return {
+						content: [
+							{
+								type: "text",
+								text: "Missing required field: target_id or target_url",
+							},
+						],
+					};
+				}
+				const result = await registryVouch(
+					getEnv(),
+					{ id, url, owner_secret },
+					{ id: target_id, url: target_url },
+					{ statement, revoke },
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_vouches",
+			"Web of trust for a daemon (trust depth, vouches)",
+			{
+				id: z.string().optional().describe("Daemon ID"),
+				url: z.string().optional().describe("Daemon URL (if no id)"),
+			},
+			async ({ id, url }) => {
+				if (!id && !url) {
+					return {
+						content: [
+							{ type: "text", text: "Missing required field: id or url" },
+						],
+					};
+				}
+				const result = await registryVouches(getEnv(), { id, url });
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
 		);
 
 		this.server.tool(
 			"daemon_registry_health_check",
 			"Check daemon health",
-			{ url: z.string().describe("Daemon URL") },
-			async ({ url }) => {
-				const result = await registryHealthCheck(getKV(), url);
-				return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-			}
+			{
+				id: z.string().optional().describe("Daemon ID"),
+				url: z.string().optional().describe("Daemon URL (if no id)"),
+			},
+			async ({ id, url }) => {
+				if (!id && !url) {
+					return {
+						content: [
+							{ type: "text", text: "Missing required field: id or url" },
+						],
+					};
+				}
+				const result = await registryHealthCheck(getEnv(), { id, url });
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_uptime",
+			"Get daemon uptime (24h/7d/30d)",
+			{
+				id: z.string().optional().describe("Daemon ID"),
+				url: z.string().optional().describe("Daemon URL (if no id)"),
+			},
+			async ({ id, url }) => {
+				if (!id && !url) {
+					return {
+						content: [
+							{ type: "text", text: "Missing required field: id or url" },
+						],
+					};
+				}
+				const result = await registryUptime(getEnv(), { id, url });
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
 		);
 
 		this.server.tool(
 			"daemon_registry_activity",
 			"Get activity feed",
+			activityQueryShape,
+			async (args) => {
+				const { query, error } = parseActivityQuery(args);
+				if (!query) {
+					return {
+						content: [{ type: "text", text: `Invalid params: ${error}` }],
+					};
+				}
+				const result = await registryActivity(getEnv(), query);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_subscribe",
+			"Subscribe a webhook to activity events",
 			{
-				limit: z.number().optional().describe("Max events"),
-				type: z.enum(["daemon_announced", "health_changed", "daemon_verified"]).optional().describe("Event type"),
+				url: z.string().describe("HTTPS URL to POST events to"),
+				types: z
+					.array(z.enum(ACTIVITY_EVENT_TYPES))
+					.optional()
+					.describe("Only these event types"),
+				tags: z
+					.array(z.string())
+					.optional()
+					.describe("Only events for daemons with any of these tags"),
+				daemon_ids: z
+					.array(z.string())
+					.optional()
+					.describe("Only events for these daemon IDs"),
+			},
+			async ({ url, types, tags, daemon_ids }) => {
+				const result = await registrySubscribe(
+					getEnv(),
+					url,
+					{ types, tags, daemon_ids },
+					getClientIp(),
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_unsubscribe",
+			"Remove a webhook subscription",
+			{
+				subscription_id: z.string().describe("Subscription ID"),
+				secret: z.string().describe("Subscription secret"),
+			},
+			async ({ subscription_id, secret }) => {
+				const result = await registryUnsubscribe(
+					getEnv(),
+					subscription_id,
+					secret,
+				);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"get_known_daemons",
+			"List daemons this registry knows (gossip, paginated)",
+			limitShape,
+			async (page) => {
+				const result = await registryKnownDaemons(getEnv(), page);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		this.server.tool(
+			"daemon_registry_discovered",
+			"List unverified daemons found through gossip (paginated)",
+			limitShape,
+			async (page) => {
+				const result = await registryDiscovered(getEnv(), page);
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
 			},
-			async ({ limit, type }) => {
-				const result = await registryActivity(getKV(), limit, type);
-				return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-			}
 		);
 
 		this.server.tool(
 			"daemon_registry_capabilities",
 			"Discover daemon capabilities",
-			{ url: z.string().describe("Daemon URL") },
-			async ({ url }) => {
-				const kv = getKV();
-				const registry = kv ? await loadRegistry(kv) : { entries: [] };
-				const entry = registry.entries.find(e => e.url === url || e.mcp_url === url);
-				const result = await discoverCapabilities(url, entry?.mcp_url);
-				return { content: [{ type: "text", text: JSON.stringify(result, null, 2) }] };
-			}
+			{
+				id: z.string().optional().describe("Daemon ID"),
+				url: z.string().optional().describe("Daemon URL or MCP URL (if no id)"),
+			},
+			async ({ id, url }) => {
+				if (!id && !url) {
+					return {
+						content: [
+							{ type: "text", text: "Missing required field: id or url" },
+						],
+					};
+				}
+				const result = await registryCapabilities(getEnv(), { id, url });
+				return {
+					content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+				};
+			},
+		);
+
+		// Activity feed as a resource; subscribers get notifications/resources/updated for each new event
+		this.server.resource(
+			"activity",
+			ACTIVITY_RESOURCE_URI,
+			{
+				description: "Recent registry activity (newest first)",
+				mimeType: "application/json",
+			},
+			async (uri) => {
+				const env = getEnv();
+				const events = env ? await loadActivityFeed(env) : [];
+				return {
+					contents: [
+						{
+							uri: uri.href,
+							mimeType: "application/json",
+							text: JSON.stringify({ events }, null, 2),
+						},
+					],
+				};
+			},
+		);
+		this.server.server.registerCapabilities({ resources: { subscribe: true } });
+
+		let activityWatch: AbortController | undefined;
+		const stopActivityWatch = () => {
+			activityWatch?.abort();
+			activityWatch = undefined;
+		};
+		this.server.server.setRequestHandler(
+			SubscribeRequestSchema,
+			async (request) => {
+				if (request.params.uri !== ACTIVITY_RESOURCE_URI) {
+					throw new McpError(
+						ErrorCode.InvalidParams,
+						`Resource does not support subscriptions: ${request.params.uri}`,
+					);
+				}
+				if (!activityWatch) {
+					const watch = new AbortController();
+					activityWatch = watch;
+					// Once the relay stops, a later subscribe starts a new one
+					void this.watchActivity(watch).finally(() => {
+						if (activityWatch === watch) activityWatch = undefined;
+					});
+				}
+				return {};
+			},
+		);
+		this.server.server.setRequestHandler(
+			UnsubscribeRequestSchema,
+			async (request) => {
+				if (request.params.uri === ACTIVITY_RESOURCE_URI) stopActivityWatch();
+				return {};
+			},
 		);
+		this.server.server.onclose = stopActivityWatch;
+	}
+
+	// Relay the registry's live activity stream to this session until it unsubscribes or disconnects.
+	// When the stream ends (RegistryState evicted or redeployed) it is reopened with backoff and
+	// resumed with Last-Event-ID, so no event is missed.
+	private async watchActivity(watch: AbortController): Promise<void> {
+		const env = this.env as Env | undefined;
+		if (!env) return;
+
+		let lastEventId: string | undefined;
+		let failures = 0;
+		while (!watch.signal.aborted && failures < MAX_RECONNECT_ATTEMPTS) {
+			try {
+				const response = await openActivityStream(
+					env,
+					new Request("https://registry/activity/stream", {
+						headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+					}),
+				);
+				if (response.ok && response.body) {
+					failures = 0;
+					await readActivityStream(
+						response.body,
+						async (event) => {
+							lastEventId = event.id;
+							try {
+								await this.server.server.sendResourceUpdated({
+									uri: ACTIVITY_RESOURCE_URI,
+								});
+							} catch {
+								watch.abort(); // session is gone
+							}
+						},
+						watch.signal,
+					);
+				} else {
+					await response.body?.cancel();
+					failures++;
+				}
+			} catch (e) {
+				if (!watch.signal.aborted)
+					console.error("Activity stream relay failed:", e);
+				failures++;
+			}
+
+			const delay = reconnectDelay(failures);
+			await new Promise<void>((resolve) => {
+				const timer = setTimeout(resolve, delay);
+				watch.signal.addEventListener(
+					"abort",
+					() => {
+						clearTimeout(timer);
+						resolve();
+					},
+					{ once: true },
+				);
+			});
+		}
+		if (!watch.signal.aborted)
+			console.error(
+				`Activity stream relay gave up after ${MAX_RECONNECT_ATTEMPTS} failed reconnects`,
+			);
 	}
 }
 
@@ -307,82 +1248,199 @@ export default {
 		}
 
 		// JSON-RPC handler
-		if ((url.pathname === "/" || url.pathname === "/mcp") && request.method === "POST") {
+		if (
+			(url.pathname === "/" || url.pathname === "/mcp") &&
+			request.method === "POST"
+		) {
 			try {
 				const body = await request.json();
-				const clientIp = request.headers.get("CF-Connecting-IP") ||
-					request.headers.get("X-Forwarded-For")?.split(",")[0] || "unknown";
-				return handleJsonRpc(body, env.REGISTRY_DATA, clientIp);
+				return handleJsonRpc(body, env, getClientIp(request));
 			} catch {
 				return new Response(
-					JSON.stringify({ jsonrpc: "2.0", error: { code: -32700, message: "Parse error" }, id: null }),
-					{ headers: { "Content-Type": "application/json" } }
+					JSON.stringify({
+						jsonrpc: "2.0",
+						error: { code: -32700, message: "Parse error" },
+						id: null,
+					}),
+					{ headers: { "Content-Type": "application/json" } },
 				);
 			}
 		}
 
-		// SSE transport
+		// SSE transport. The session reads the caller's IP from ctx.props, so its
+		// rate-limited tools count against the same per-IP limits as JSON-RPC.
 		if (url.pathname === "/sse" || url.pathname === "/sse/message") {
+			Object.assign(ctx, { props: { clientIp: getClientIp(request) } });
 			return RegistryMCP.serveSSE("/sse").fetch(request, env, ctx);
 		}
 
+		// Activity feeds for feed readers
+		const feedFormat = url.pathname.match(/^\/feed\.(atom|rss|json)$/)?.[1] as
+			| FeedFormat
+			| undefined;
+		if (feedFormat && request.method === "GET") {
+			return handleFeedRequest(url, feedFormat, env);
+		}
+
+		// Live activity stream (server-sent events, resumable with Last-Event-ID)
+		if (url.pathname === "/activity/stream" && request.method === "GET") {
+			return openActivityStream(env, request);
+		}
+
+		// Activity event permalinks
+		const permalinkId = url.pathname.match(/^\/activity\/([^/]+)$/)?.[1];
+		if (permalinkId && request.method === "GET") {
+			const eventId = decodeURIComponent(permalinkId);
+			const event = await getActivityEvent(env, eventId);
+			if (!event) {
+				return new Response(
+					JSON.stringify({ error: `Activity event not found: ${eventId}` }),
+					{ status: 404, headers: corsHeaders },
+				);
+			}
+			return new Response(
+				JSON.stringify(
+					{ ...event, summary: describeActivityEvent(event) },
+					null,
+					2,
+				),
+				{ headers: corsHeaders },
+			);
+		}
+
+		// Public key that verifies vouch edge signatures (Ed25519 JWK)
+		if (
+			url.pathname === "/.well-known/daemon-registry-vouch-key" &&
+			request.method === "GET"
+		) {
+			return new Response(
+				JSON.stringify(await getVouchPublicKey(env), null, 2),
+				{ headers: corsHeaders },
+			);
+		}
+
 		// Health check
 		if (url.pathname === "/health") {
 			return new Response(
 				JSON.stringify({ status: "ok", service: "daemon-registry" }),
-				{ headers: { "Content-Type": "application/json" } }
+				{ headers: { "Content-Type": "application/json" } },
 			);
 		}
 
-		return new Response("Daemon Registry. POST to / for JSON-RPC or connect to /sse for SSE transport.", { status: 200 });
+		return new Response(
+			"Daemon Registry. POST to / for JSON-RPC or connect to /sse for SSE transport.",
+			{ status: 200 },
+		);
 	},
 
 	// Cron trigger for health checks
 	async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext) {
-		const kv = env.REGISTRY_DATA;
 		const currentMinute = new Date(event.scheduledTime).getMinutes();
 
-		const registry = await loadRegistry(kv);
-		const updates: { url: string; owner: string; oldStatus?: string; update: Partial<DaemonEntry> }[] = [];
+		// Pull peer registries hourly, each on its own jitter minute
+		let mirrored = 0;
+		for (const registryUrl of getFederatedRegistries(env)) {
+			if (getDaemonCheckMinute(registryUrl) !== currentMinute) continue;
+			try {
+				const result = await syncFederatedRegistry(env, registryUrl);
+				if (result.error) {
+					console.error(
+						`Federation pull failed for ${registryUrl}: ${result.error}`,
+					);
+				}
+				mirrored += result.mirrored;
+			} catch (e) {
+				console.error(`Federation pull failed for ${registryUrl}:`, e);
+			}
+		}
+
+		const registry = await loadRegistry(env);
+		const policy = getLifecyclePolicy(env);
+		const updates: {
+			entry: DaemonEntry;
+			update: Partial<DaemonEntry>;
+			transition?: LifecycleTransition;
+		}[] = [];
 
 		for (const entry of registry.entries) {
+			// Mirrored entries are checked by the registry they come from
+			if (entry.source_registry) continue;
 			const checkMinute = getDaemonCheckMinute(entry.url);
 			if (checkMinute !== currentMinute) continue;
+			// Persistently offline daemons back off (see lib/lifecycle.ts)
+			if (!isCheckDue(entry, event.scheduledTime)) continue;
 
 			try {
-				const healthUpdate = await healthCheckDaemon(entry);
-				updates.push({ url: entry.url, owner: entry.owner, oldStatus: entry.status, update: healthUpdate });
+				const lifecycle = applyLifecycle(
+					entry,
+					await healthCheckDaemon(entry),
+					policy,
+					event.scheduledTime,
+				);
+				updates.push({
+					entry,
+					update: lifecycle.update,
+					transition: lifecycle.transition,
+				});
 			} catch (e) {
 				console.error(`Health check failed for ${entry.url}:`, e);
 			}
 		}
 
-		if (updates.length > 0) {
-			const announced = await getAnnouncedFromKV(kv);
-			let updated = false;
+		// RegistryState applies the whole batch in one transaction, serialized with announces
+		await recordHealthChecks(env, updates, { scheduled: true });
 
-			for (const { url, owner, oldStatus, update } of updates) {
-				const idx = announced.findIndex(e => e.url === url);
-				if (idx >= 0) {
-					announced[idx] = { ...announced[idx], ...update };
-					updated = true;
+		// Re-check ownership proofs (daily once verified, every check while pending)
+		let verificationChanges = 0;
+		for (const { entry } of updates) {
+			if (!isReverifyDue(entry, event.scheduledTime)) continue;
+			try {
+				const result = await reverifyEntry(env, entry);
+				if (result.changed) {
+					verificationChanges++;
+					entry.verified = result.verified;
 				}
+			} catch (e) {
+				console.error(`Re-verification failed for ${entry.url}:`, e);
+			}
+		}
 
-				if (oldStatus && update.status && oldStatus !== update.status) {
-					await addActivityEvent(kv, {
-						type: "health_changed",
-						daemon_url: url,
-						daemon_owner: owner,
-						details: { old_status: oldStatus, new_status: update.status },
-					});
+		// Refresh the daemon.md full-text index for the daemons checked this minute
+		let indexed = 0;
+		for (const { entry } of updates) {
+			try {
+				if (entry.verified) {
+					const result = await indexDaemonContent(env.REGISTRY_DATA, entry);
+					if (result.indexed) indexed++;
+				} else {
+					await removeDaemonContent(env.REGISTRY_DATA, entry.id);
 				}
+			} catch (e) {
+				console.error(`Content indexing failed for ${entry.url}:`, e);
 			}
+		}
 
-			if (updated) {
-				await saveAnnouncedToKV(kv, announced);
+		// Gossip: once a day (on each daemon's crawl hour), ask MCP daemons which peers they know
+		const currentHour = new Date(event.scheduledTime).getUTCHours();
+		let discovered = 0;
+		for (const { entry, update } of updates) {
+			const transport = update.mcp_server?.transport;
+			if (!transport || getDaemonCrawlHour(entry.url) !== currentHour) continue;
+			try {
+				const result = await crawlDaemonPeers(
+					env,
+					entry,
+					transport,
+					registry.entries,
+				);
+				discovered += result.discovered;
+			} catch (e) {
+				console.error(`Peer crawl failed for ${entry.url}:`, e);
 			}
 		}
 
-		console.log(`Health check at minute ${currentMinute}: ${updates.length} daemons checked`);
+		console.log(
+			`Health check at minute ${currentMinute}: ${updates.length} daemons checked, ${verificationChanges} verification changes, ${indexed} reindexed, ${discovered} peers discovered, ${mirrored} entries mirrored`,
+		);
 	},
 };
@@ -0,0 +1,142 @@
+import { z } from "zod";
+
+import type { ActivityEvent } from "../types";
+import { ACTIVITY_EVENT_TYPES } from "./kv";
+import { dateString } from "./filters";
+import { sameDaemonId, sameDaemonUrl } from "./resolve";
+
+// Storage keys: activity:<YYYYMMDD>:<seq>, so a prefix or range list walks the log in order
+export const ACTIVITY_PREFIX = "activity:";
+const SEQ_DIGITS = 12;
+
+// Page config
+const DEFAULT_ACTIVITY_LIMIT = 20;
+const MAX_ACTIVITY_LIMIT = 200;
+
+// Filters for daemon_registry_activity. since is inclusive, until exclusive; cursor is the
+// id of the last event of the previous page. daemon_ids narrows to any of several daemons
+// (events from before daemon_id was recorded are matched by daemon_urls instead).
+export interface ActivityQuery {
+	types?: ActivityEvent["type"][];
+	daemon_id?: string;
+	daemon_ids?: string[];
+	daemon_urls?: string[];
+	since?: string;
+	until?: string;
+	cursor?: string;
+	limit?: number;
+}
+
+// daemon_registry_activity arguments, shared by the JSON-RPC and SSE transports
+export const activityQueryShape = {
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(MAX_ACTIVITY_LIMIT)
+		.optional()
+		.describe(`Max events per page (default ${DEFAULT_ACTIVITY_LIMIT})`),
+	type: z
+		.enum(ACTIVITY_EVENT_TYPES)
+		.optional()
+		.describe("Filter by event type"),
+	types: z
+		.array(z.enum(ACTIVITY_EVENT_TYPES))
+		.optional()
+		.describe("Filter by several event types"),
+	daemon_id: z.string().optional().describe("Only events for this daemon ID"),
+	since: dateString.optional().describe("Events at or after this date"),
+	until: dateString.optional().describe("Events before this date"),
+	cursor: z
+		.string()
+		.regex(/^\d{8}-\d{12}$/, "Expected next_cursor from a previous response")
+		.optional()
+		.describe("next_cursor from a previous response"),
+};
+
+const activityQuerySchema = z.object(activityQueryShape);
+
+// Validate activity arguments, folding the single type into types
+export function parseActivityQuery(args: unknown): {
+	query?: ActivityQuery;
+	error?: string;
+} {
+	const result = activityQuerySchema.safeParse(args ?? {});
+	if (!result.success) {
+		return {
+			error: result.error.issues
+				.map(
+					(issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`,
+				)
+				.join("; "),
+		};
+	}
+	const { type, types, ...rest } = result.data;
+	const merged = [...(types || []), ...(type ? [type] : [])];
+	return { query: { ...rest, types: merged.length > 0 ? merged : undefined } };
+}
+
+function dayBucket(timestamp: string | number): string {
+	return new Date(timestamp).toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+// Event IDs are <YYYYMMDD>-<seq>: the day bucket plus a registry-wide sequence number
+export function formatActivityId(timestamp: string, seq: number): string {
+	return `${dayBucket(timestamp)}-${seq.toString().padStart(SEQ_DIGITS, "0")}`;
+}
+
+export function isActivityId(id: string): boolean {
+	return new RegExp(`^\\d{8}-\\d{${SEQ_DIGITS}}$`).test(id);
+}
+
+export function activityKey(id: string): string {
+	return `${ACTIVITY_PREFIX}${id.replace("-", ":")}`;
+}
+
+export function clampActivityLimit(limit?: number): number {
+	return Math.min(
+		Math.max(Math.floor(limit || DEFAULT_ACTIVITY_LIMIT), 1),
+		MAX_ACTIVITY_LIMIT,
+	);
+}
+
+// Key range for a query, newest first: [start, end) narrowed to the since/until days and below the cursor
+export function activityKeyRange(query: ActivityQuery): {
+	start: string;
+	end: string;
+} {
+	const start = query.since
+		? `${ACTIVITY_PREFIX}${dayBucket(query.since)}:`
+		: ACTIVITY_PREFIX;
+	// The until day itself may hold matching events, so the range runs to the end of that day
+	let end = query.until
+		? `${ACTIVITY_PREFIX}${dayBucket(query.until)};`
+		: `${ACTIVITY_PREFIX};`;
+	if (query.cursor) {
+		const cursorKey = activityKey(query.cursor);
+		if (cursorKey < end) end = cursorKey;
+	}
+	return { start, end };
+}
+
+export function matchesActivityQuery(
+	event: ActivityEvent,
+	query: ActivityQuery,
+): boolean {
+	if (query.types?.length && !query.types.includes(event.type)) return false;
+	// IDs match case-insensitively and URLs normalized, like every other daemon lookup
+	const { daemon_id: id, daemon_url: url } = event;
+	if (query.daemon_id && !(id && sameDaemonId(id, query.daemon_id)))
+		return false;
+	if (query.daemon_ids) {
+		const matches = id
+			? query.daemon_ids.some((d) => sameDaemonId(d, id))
+			: !!url && !!query.daemon_urls?.some((u) => sameDaemonUrl(u, url));
+		if (!matches) return false;
+	}
+	if (query.since && Date.parse(event.timestamp) < Date.parse(query.since))
+		return false;
+	if (query.until && Date.parse(event.timestamp) >= Date.parse(query.until))
+		return false;
+	return true;
+}
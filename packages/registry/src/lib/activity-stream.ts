@@ -0,0 +1,71 @@
+import type { ActivityEvent } from "../types";
+
+// URI of the MCP resource mirroring the activity feed
+export const ACTIVITY_RESOURCE_URI = "registry://activity";
+
+// Comment line sent to keep idle streams (and proxies) from timing out
+export const SSE_KEEPALIVE = ": keepalive\n\n";
+export const SSE_KEEPALIVE_INTERVAL_MS = 25 * 1000;
+
+// Tell EventSource clients how long to wait before reconnecting
+export const SSE_RETRY = "retry: 5000\n\n";
+
+// A relay whose stream drops reconnects after a growing delay, and gives up after this many
+// attempts in a row that don't connect
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 60 * 1000;
+export const MAX_RECONNECT_ATTEMPTS = 10;
+
+export function reconnectDelay(failures: number): number {
+	return Math.min(
+		RECONNECT_BASE_DELAY_MS * 2 ** failures,
+		RECONNECT_MAX_DELAY_MS,
+	);
+}
+
+// One server-sent event per activity event; the id lets clients resume with Last-Event-ID
+export function formatActivitySse(event: ActivityEvent): string {
+	return `id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Read an activity SSE stream until it ends or the signal aborts, calling onEvent for each event.
+ * Keepalive comments and fields other than data are ignored.
+ */
+export async function readActivityStream(
+	body: ReadableStream<Uint8Array>,
+	onEvent: (event: ActivityEvent) => void | Promise<void>,
+	signal: AbortSignal,
+): Promise<void> {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	signal.addEventListener("abort", () => reader.cancel().catch(() => {}), {
+		once: true,
+	});
+
+	let buffer = "";
+	while (!signal.aborted) {
+		const { value, done } = await reader.read();
+		if (done) break;
+		buffer += decoder.decode(value, { stream: true });
+
+		let boundary = buffer.indexOf("\n\n");
+		while (boundary !== -1) {
+			const block = buffer.slice(0, boundary);
+			buffer = buffer.slice(boundary + 2);
+			boundary = buffer.indexOf("\n\n");
+
+			const data = block
+				.split("\n")
+				.filter((line) => line.startsWith("data:"))
+				.map((line) => line.slice(5).trimStart())
+				.join("\n");
+			if (!data) continue;
+			try {
+				await onEvent(JSON.parse(data) as ActivityEvent);
+			} catch (e) {
+				console.error("Failed to handle activity stream event:", e);
+			}
+		}
+	}
+}
@@ -0,0 +1,106 @@
+// daemon.md helpers - same [SECTION] format as packages/telos
+
+import type { ActivityEvent, DaemonEntry } from "../types";
+import { sha256Hex } from "./hash";
+
+// Parse daemon.md content into sections
+export function parseDaemonMd(content: string): Record<string, string> {
+	const sections: Record<string, string> = {};
+	const lines = content.split("\n");
+	let currentSection = "";
+	let currentContent: string[] = [];
+
+	for (const line of lines) {
+		const sectionMatch = line.match(/^\[([A-Z_]+)\]$/);
+		if (sectionMatch) {
+			if (currentSection) {
+				sections[currentSection] = currentContent.join("\n").trim();
+			}
+			currentSection = sectionMatch[1];
+			currentContent = [];
+		} else if (currentSection) {
+			currentContent.push(line);
+		}
+	}
+
+	if (currentSection) {
+		sections[currentSection] = currentContent.join("\n").trim();
+	}
+
+	return sections;
+}
+
+// Build the daemon.md URL for a daemon
+export function getDaemonMdUrl(daemonUrl: string): string {
+	const baseUrl = daemonUrl.endsWith("/") ? daemonUrl : `${daemonUrl}/`;
+	return `${baseUrl}daemon.md`;
+}
+
+// Fetch a daemon's daemon.md
+export async function fetchDaemonMd(
+	daemonUrl: string,
+): Promise<{ content?: string; error?: string }> {
+	try {
+		const response = await fetch(getDaemonMdUrl(daemonUrl), {
+			headers: { "User-Agent": "DaemonRegistry/1.0" },
+			signal: AbortSignal.timeout(10000),
+		});
+
+		if (!response.ok) {
+			return { error: `HTTP ${response.status}` };
+		}
+		return { content: await response.text() };
+	} catch (e) {
+		const error = e instanceof Error ? e.message : "Unknown error";
+		return { error };
+	}
+}
+
+// SHA-256 of the whole daemon.md and of each section, for change detection
+export async function hashDaemonMd(
+	content: string,
+): Promise<{ content_hash: string; section_hashes: Record<string, string> }> {
+	const sections = parseDaemonMd(content);
+	const section_hashes: Record<string, string> = {};
+	for (const [name, text] of Object.entries(sections)) {
+		section_hashes[name] = await sha256Hex(text);
+	}
+	return { content_hash: await sha256Hex(content), section_hashes };
+}
+
+// daemon_content_changed event when a health check saw a different daemon.md than last time
+export function contentChangedEvent(
+	entry: DaemonEntry,
+	update: Partial<DaemonEntry>,
+): Omit<ActivityEvent, "id" | "timestamp"> | null {
+	// Nothing to compare against on the first hash, or when daemon.md couldn't be fetched
+	if (
+		!entry.content_hash ||
+		!update.content_hash ||
+		entry.content_hash === update.content_hash
+	) {
+		return null;
+	}
+
+	const before = entry.section_hashes || {};
+	const after = update.section_hashes || {};
+	const added = Object.keys(after).filter((s) => !(s in before));
+	const removed = Object.keys(before).filter((s) => !(s in after));
+	const modified = Object.keys(after).filter(
+		(s) => s in before && before[s] !== after[s],
+	);
+
+	return {
+		type: "daemon_content_changed",
+		daemon_id: entry.id,
+		daemon_url: entry.url,
+		daemon_owner: entry.owner,
+		details: {
+			id: entry.id,
+			added,
+			removed,
+			modified,
+			content_hash: update.content_hash,
+		},
+	};
+}
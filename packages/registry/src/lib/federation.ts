@@ -0,0 +1,150 @@
+import type { DaemonEntry, Env } from "../types";
+import { callMcpTool } from "./mcp-client";
+import { normalizeUrl } from "./resolve";
+import { replaceMirroredDaemons } from "./kv";
+
+// Pull config: daemon_registry_list pages, capped so one peer can't flood the mirror
+const MIRROR_PAGE_SIZE = 200;
+const MAX_MIRROR_PAGES = 50;
+
+// Peer registries to mirror, from the FEDERATED_REGISTRIES var (comma or whitespace separated URLs).
+// Order matters: when two peers list the same ID, the earlier one wins a tie.
+export function getFederatedRegistries(env?: Env): string[] {
+	const urls = new Set<string>();
+	for (const value of (env?.FEDERATED_REGISTRIES || "").split(/[\s,]+/)) {
+		try {
+			const { protocol } = new URL(value);
+			if (protocol === "https:" || protocol === "http:")
+				urls.add(normalizeUrl(value));
+		} catch {
+			// Skip malformed URLs rather than failing every load
+		}
+	}
+	return [...urls];
+}
+
+// Keep a peer's own active entries. Entries it mirrors from elsewhere (source_registry set)
+// are skipped, so registries that federate with each other don't echo entries back and forth.
+function toMirroredEntry(raw: unknown, source: string): DaemonEntry | null {
+	const entry = raw as Partial<DaemonEntry> | null;
+	if (
+		!entry ||
+		typeof entry.id !== "string" ||
+		typeof entry.url !== "string" ||
+		typeof entry.owner !== "string"
+	) {
+		return null;
+	}
+	if (entry.source_registry || entry.withdrawn_at) return null;
+	try {
+		new URL(entry.url);
+	} catch {
+		return null;
+	}
+	// trust_depth is relative to the peer's own trust roots, so it is recomputed here
+	const { trust_depth: _, ...fields } = entry;
+	return {
+		...fields,
+		verified: entry.verified === true,
+		source_registry: source,
+	} as DaemonEntry;
+}
+
+// Fetch every entry a peer registry lists, following next_cursor
+export async function fetchRegistryEntries(
+	registryUrl: string,
+): Promise<{ entries?: DaemonEntry[]; error?: string }> {
+	const entries: DaemonEntry[] = [];
+	let cursor: string | undefined;
+	for (let page = 0; page < MAX_MIRROR_PAGES; page++) {
+		const result = await callMcpTool(
+			registryUrl,
+			"streamable_http",
+			"daemon_registry_list",
+			{
+				limit: MIRROR_PAGE_SIZE,
+				include_archived: true,
+				...(cursor ? { cursor } : {}),
+			},
+		);
+		if (result.text === undefined) {
+			return { error: result.error };
+		}
+
+		let parsed: { daemons?: unknown[]; next_cursor?: string };
+		try {
+			parsed = JSON.parse(result.text);
+		} catch {
+			return { error: "daemon_registry_list did not return JSON" };
+		}
+		if (!Array.isArray(parsed.daemons)) {
+			return { error: "daemon_registry_list response has no daemons array" };
+		}
+
+		for (const raw of parsed.daemons) {
+			const entry = toMirroredEntry(raw, registryUrl);
+			if (entry) entries.push(entry);
+		}
+		cursor =
+			typeof parsed.next_cursor === "string" ? parsed.next_cursor : undefined;
+		if (!cursor) break;
+	}
+	return { entries };
+}
+
+/**
+ * Pull a peer registry and replace its mirrored entries.
+ * A failed pull keeps the previous mirror, so a peer that is briefly down doesn't vanish.
+ */
+export async function syncFederatedRegistry(
+	env: Env,
+	registryUrl: string,
+): Promise<{ mirrored: number; error?: string }> {
+	const { entries, error } = await fetchRegistryEntries(registryUrl);
+	if (!entries) {
+		return { mirrored: 0, error };
+	}
+	await replaceMirroredDaemons(env, registryUrl, entries);
+	return { mirrored: entries.length };
+}
+
+/**
+ * Merge mirrored entries into the local ones, keyed by namespace ID.
+ * - Local entries (seeds, announces, tombstones) always win, by ID or URL
+ * - Between peers, a verified entry beats an unverified one; otherwise the earlier peer in FEDERATED_REGISTRIES wins
+ * - Entries from peers no longer configured are dropped
+ */
+export function mergeMirroredEntries(
+	local: DaemonEntry[],
+	mirrored: DaemonEntry[],
+	registries: string[],
+): DaemonEntry[] {
+	const localIds = new Set(local.map((e) => e.id));
+	const localUrls = new Set(local.map((e) => normalizeUrl(e.url)));
+	const rank = (entry: DaemonEntry) =>
+		registries.indexOf(entry.source_registry || "");
+	const beats = (entry: DaemonEntry, existing?: DaemonEntry) =>
+		!existing ||
+		(entry.verified && !existing.verified) ||
+		(entry.verified === existing.verified && rank(entry) < rank(existing));
+
+	const byId = new Map<string, DaemonEntry>();
+	for (const entry of mirrored) {
+		if (
+			rank(entry) < 0 ||
+			localIds.has(entry.id) ||
+			localUrls.has(normalizeUrl(entry.url))
+		)
+			continue;
+		if (beats(entry, byId.get(entry.id))) byId.set(entry.id, entry);
+	}
+
+	// The same daemon mirrored under different IDs is kept once, by the same rules
+	const byUrl = new Map<string, DaemonEntry>();
+	for (const entry of byId.values()) {
+		const url = normalizeUrl(entry.url);
+		if (beats(entry, byUrl.get(url))) byUrl.set(url, entry);
+	}
+
+	return [...local, ...byUrl.values()];
+}
@@ -0,0 +1,180 @@
+import type { ActivityEvent } from "../types";
+
+export type FeedFormat = "atom" | "rss" | "json";
+
+const FEED_TITLE = "Community Daemon Registry - Activity";
+const FEED_DESCRIPTION =
+	"Daemons announced, verified, updated and changing health in the Community Daemon Registry";
+
+export function activityPermalink(
+	baseUrl: string,
+	event: ActivityEvent,
+): string {
+	return `${baseUrl}/activity/${encodeURIComponent(event.id)}`;
+}
+
+// One-line, human-readable summary of an event
+export function describeActivityEvent(event: ActivityEvent): string {
+	const details = event.details || {};
+	const who = event.daemon_owner
+		? `${event.daemon_owner}'s daemon`
+		: "A daemon";
+	switch (event.type) {
+		case "daemon_announced":
+			return `${event.daemon_owner || "Someone"} announced ${event.daemon_url}`;
+		case "daemon_updated":
+			return `${who} was updated (${Object.keys(details.changes || {}).join(", ") || "details changed"})`;
+		case "daemon_removed":
+			return `${who} was withdrawn from the registry`;
+		case "health_changed":
+			return `${event.daemon_url} is now ${details.new_status} (was ${details.old_status})`;
+		case "daemon_verified":
+			return `${who} proved domain ownership${details.method ? ` via ${details.method}` : ""}`;
+		case "verification_lost":
+			return `${who} lost verification - its proof token is no longer published`;
+		case "daemon_archived":
+			return `${event.daemon_url} was archived after being offline since ${details.offline_since}`;
+		case "daemon_revived":
+			return `${event.daemon_url} is back online`;
+		case "daemon_content_changed":
+			return `${who} changed its daemon.md`;
+		case "daemon_vouched":
+			return `${details.voucher_id} vouched for ${event.daemon_id || event.daemon_url}`;
+	}
+}
+
+function escapeXml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&apos;");
+}
+
+function eventContent(event: ActivityEvent): string {
+	return `${describeActivityEvent(event)}\n\n${event.daemon_url}${event.details ? `\n\n${JSON.stringify(event.details, null, 2)}` : ""}`;
+}
+
+function renderAtom(
+	events: ActivityEvent[],
+	baseUrl: string,
+	selfUrl: string,
+	updated: string,
+): string {
+	const entries = events.map(
+		(event) => `	<entry>
+		<id>${escapeXml(activityPermalink(baseUrl, event))}</id>
+		<title>${escapeXml(describeActivityEvent(event))}</title>
+		<link href="${escapeXml(activityPermalink(baseUrl, event))}"/>
+		<updated>${escapeXml(event.timestamp)}</updated>
+		<author><name>${escapeXml(event.daemon_owner || "Community Daemon Registry")}</name></author>
+		<category term="${escapeXml(event.type)}"/>
+		<content type="text">${escapeXml(eventContent(event))}</content>
+	</entry>`,
+	);
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+	<id>${escapeXml(selfUrl)}</id>
+	<title>${escapeXml(FEED_TITLE)}</title>
+	<subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>
+	<link rel="self" href="${escapeXml(selfUrl)}"/>
+	<link rel="alternate" href="${escapeXml(baseUrl)}/"/>
+	<updated>${escapeXml(updated)}</updated>
+${entries.join("\n")}
+</feed>
+`;
+}
+
+function renderRss(
+	events: ActivityEvent[],
+	baseUrl: string,
+	selfUrl: string,
+	updated: string,
+): string {
+	const items = events.map(
+		(event) => `		<item>
+			<title>${escapeXml(describeActivityEvent(event))}</title>
+			<link>${escapeXml(activityPermalink(baseUrl, event))}</link>
+			<guid isPermaLink="true">${escapeXml(activityPermalink(baseUrl, event))}</guid>
+			<pubDate>${new Date(event.timestamp).toUTCString()}</pubDate>
+			<category>${escapeXml(event.type)}</category>
+			<description>${escapeXml(eventContent(event))}</description>
+		</item>`,
+	);
+
+	return `<?xml version="1.0" encoding="utf-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+	<channel>
+		<title>${escapeXml(FEED_TITLE)}</title>
+		<link>${escapeXml(baseUrl)}/</link>
+		<description>${escapeXml(FEED_DESCRIPTION)}</description>
+		<atom:link rel="self" type="application/rss+xml" href="${escapeXml(selfUrl)}"/>
+		<lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>
+${items.join("\n")}
+	</channel>
+</rss>
+`;
+}
+
+// JSON Feed 1.1 (https://jsonfeed.org/version/1.1); the raw event rides along as the _activity extension
+function renderJson(
+	events: ActivityEvent[],
+	baseUrl: string,
+	selfUrl: string,
+): string {
+	return JSON.stringify(
+		{
+			version: "https://jsonfeed.org/version/1.1",
+			title: FEED_TITLE,
+			description: FEED_DESCRIPTION,
+			home_page_url: `${baseUrl}/`,
+			feed_url: selfUrl,
+			items: events.map((event) => ({
+				id: activityPermalink(baseUrl, event),
+				url: activityPermalink(baseUrl, event),
+				title: describeActivityEvent(event),
+				content_text: eventContent(event),
+				date_published: event.timestamp,
+				authors: event.daemon_owner
+					? [{ name: event.daemon_owner }]
+					: undefined,
+				tags: [event.type],
+				_activity: event,
+			})),
+		},
+		null,
+		2,
+	);
+}
+
+/**
+ * Render activity events (newest first) as a feed.
+ * baseUrl is the registry origin used for permalinks; selfUrl is the feed's own URL including filters.
+ */
+export function renderActivityFeed(
+	format: FeedFormat,
+	events: ActivityEvent[],
+	baseUrl: string,
+	selfUrl: string,
+): { body: string; contentType: string } {
+	const updated = events[0]?.timestamp || new Date().toISOString();
+	switch (format) {
+		case "atom":
+			return {
+				body: renderAtom(events, baseUrl, selfUrl, updated),
+				contentType: "application/atom+xml; charset=utf-8",
+			};
+		case "rss":
+			return {
+				body: renderRss(events, baseUrl, selfUrl, updated),
+				contentType: "application/rss+xml; charset=utf-8",
+			};
+		case "json":
+			return {
+				body: renderJson(events, baseUrl, selfUrl),
+				contentType: "application/feed+json; charset=utf-8",
+			};
+	}
+}
@@ -0,0 +1,204 @@
+import { z } from "zod";
+
+import type { DaemonEntry, DetectedProtocol } from "../types";
+
+// Values of detected_protocol (see DetectedProtocol)
+export const DETECTED_PROTOCOLS = [
+	"mcp-streamable-http",
+	"mcp-sse",
+	"json-rpc",
+	"rest",
+	"daemon-md",
+	"unknown",
+] as const satisfies readonly DetectedProtocol[];
+
+// Duration units accepted by last_checked_within
+const DURATION_UNITS_MS: Record<string, number> = {
+	m: 60 * 1000,
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const dateString = z
+	.string()
+	.refine((value) => !Number.isNaN(Date.parse(value)), {
+		message: "Expected an ISO 8601 date or datetime",
+	});
+
+// Structured search filters, shared by the JSON-RPC and SSE transports
+export const searchFilterShape = {
+	tag: z.string().optional().describe("Filter by tag"),
+	tags: z.array(z.string()).optional().describe("Filter by several tags"),
+	tags_mode: z
+		.enum(["any", "all"])
+		.optional()
+		.describe("Match any (default) or all of tags"),
+	exclude_tags: z
+		.array(z.string())
+		.optional()
+		.describe("Drop daemons carrying any of these tags"),
+	status: z
+		.enum(["mcp", "web", "degraded", "offline"])
+		.optional()
+		.describe("Filter by status"),
+	verified_only: z
+		.boolean()
+		.optional()
+		.describe("Only daemons with proven ownership"),
+	healthy_only: z
+		.boolean()
+		.optional()
+		.describe("Only daemons whose last health check passed"),
+	protocol: z
+		.string()
+		.optional()
+		.describe("Filter by claimed protocol (e.g., mcp-rpc)"),
+	detected_protocol: z
+		.enum(DETECTED_PROTOCOLS)
+		.optional()
+		.describe("Filter by the protocol health checks detected"),
+	announced_after: dateString
+		.optional()
+		.describe("Announced at or after this date"),
+	announced_before: dateString
+		.optional()
+		.describe("Announced before this date"),
+	last_checked_within: z
+		.string()
+		.regex(/^\d+[mhdw]$/, "Expected a duration like 30m, 24h, 7d or 2w")
+		.optional()
+		.describe("Health-checked within this duration (e.g., 24h, 7d)"),
+	id_prefix: z
+		.string()
+		.regex(
+			/^[a-z0-9-]+(\.[a-z0-9-]+)*(\.\*)?$/i,
+			"Expected an id namespace like io.saltedkeys or io.saltedkeys.*",
+		)
+		.optional()
+		.describe("ID namespace (e.g., io.saltedkeys.*)"),
+	max_trust_depth: z
+		.number()
+		.int()
+		.min(0)
+		.optional()
+		.describe(
+			"Only daemons within this many vouches of an upstream seed (0 = the seeds)",
+		),
+	include_archived: z.boolean().optional().describe("Include archived daemons"),
+	archived_only: z.boolean().optional().describe("Only archived daemons"),
+};
+
+export const searchFilterSchema = z.object(searchFilterShape);
+export type SearchFilters = z.infer<typeof searchFilterSchema>;
+
+// Validate filter arguments, returning a readable error instead of throwing
+export function parseSearchFilters(args: unknown): {
+	filters?: SearchFilters;
+	error?: string;
+} {
+	const result = searchFilterSchema.safeParse(args ?? {});
+	if (!result.success) {
+		return {
+			error: result.error.issues
+				.map(
+					(issue) => `${issue.path.join(".") || "filters"}: ${issue.message}`,
+				)
+				.join("; "),
+		};
+	}
+	return { filters: result.data };
+}
+
+function parseDuration(value: string): number {
+	const amount = Number.parseInt(value.slice(0, -1), 10);
+	return amount * DURATION_UNITS_MS[value.slice(-1)];
+}
+
+// "io.saltedkeys.*" and "io.saltedkeys" both match io.saltedkeys and everything under it
+function matchesIdPrefix(id: string, prefix: string): boolean {
+	const namespace = prefix.replace(/\.\*$/, "").toLowerCase();
+	const normalized = id.toLowerCase();
+	return normalized === namespace || normalized.startsWith(`${namespace}.`);
+}
+
+// Apply structured filters to registry entries
+export function applySearchFilters<T extends DaemonEntry>(
+	entries: T[],
+	filters: SearchFilters,
+	now = Date.now(),
+): T[] {
+	const wantedTags = [
+		...(filters.tags || []),
+		...(filters.tag ? [filters.tag] : []),
+	].map((t) => t.toLowerCase());
+	const excludedTags = (filters.exclude_tags || []).map((t) => t.toLowerCase());
+	const requireAllTags = filters.tags_mode === "all";
+	const announcedAfter = filters.announced_after
+		? Date.parse(filters.announced_after)
+		: undefined;
+	const announcedBefore = filters.announced_before
+		? Date.parse(filters.announced_before)
+		: undefined;
+	const checkedSince = filters.last_checked_within
+		? now - parseDuration(filters.last_checked_within)
+		: undefined;
+	const protocol = filters.protocol?.toLowerCase();
+
+	return entries.filter((entry) => {
+		// Archived daemons are hidden unless asked for
+		if (
+			filters.archived_only
+				? !entry.archived_at
+				: entry.archived_at && !filters.include_archived
+		)
+			return false;
+
+		const entryTags = (entry.tags || []).map((t) => t.toLowerCase());
+
+		if (wantedTags.length > 0) {
+			const matched = requireAllTags
+				? wantedTags.every((t) => entryTags.includes(t))
+				: wantedTags.some((t) => entryTags.includes(t));
+			if (!matched) return false;
+		}
+		if (excludedTags.some((t) => entryTags.includes(t))) return false;
+
+		if (filters.status && entry.status !== filters.status) return false;
+		if (filters.verified_only && !entry.verified) return false;
+		if (filters.healthy_only && entry.healthy !== true) return false;
+		if (protocol && entry.protocol?.toLowerCase() !== protocol) return false;
+		if (
+			filters.detected_protocol &&
+			(entry.detected_protocol || "unknown") !== filters.detected_protocol
+		)
+			return false;
+		if (filters.id_prefix && !matchesIdPrefix(entry.id, filters.id_prefix))
+			return false;
+		if (
+			filters.max_trust_depth !== undefined &&
+			(entry.trust_depth ?? Number.POSITIVE_INFINITY) > filters.max_trust_depth
+		)
+			return false;
+
+		if (announcedAfter !== undefined || announcedBefore !== undefined) {
+			const announced = entry.announced_at
+				? Date.parse(entry.announced_at)
+				: Number.NaN;
+			if (Number.isNaN(announced)) return false;
+			if (announcedAfter !== undefined && announced < announcedAfter)
+				return false;
+			if (announcedBefore !== undefined && announced >= announcedBefore)
+				return false;
+		}
+
+		if (checkedSince !== undefined) {
+			const checked = entry.last_checked
+				? Date.parse(entry.last_checked)
+				: Number.NaN;
+			if (Number.isNaN(checked) || checked < checkedSince) return false;
+		}
+
+		return true;
+	});
+}
@@ -0,0 +1,236 @@
+import type { DaemonEntry, ContentMatch } from "../types";
+import { fetchDaemonMd, parseDaemonMd } from "./daemon-md";
+import { sha256Hex } from "./hash";
+
+// KV keys
+const KV_FTS_DOC_PREFIX = "fts:doc:"; // per-daemon parsed sections
+const KV_FTS_TERM_PREFIX = "fts:term:"; // term -> { daemon id -> sections containing it }
+
+// Indexing config
+const MIN_TERM_LENGTH = 2;
+const MAX_TERMS_PER_DOC = 5000;
+const SNIPPET_RADIUS = 80;
+// Sections that are never indexed (ownership proofs are just tokens)
+const SKIPPED_SECTIONS = new Set(["REGISTRY_PROOF"]);
+
+const STOPWORDS = new Set([
+	"a",
+	"an",
+	"and",
+	"are",
+	"as",
+	"at",
+	"be",
+	"but",
+	"by",
+	"for",
+	"from",
+	"has",
+	"have",
+	"i",
+	"in",
+	"is",
+	"it",
+	"its",
+	"me",
+	"my",
+	"of",
+	"on",
+	"or",
+	"so",
+	"that",
+	"the",
+	"this",
+	"to",
+	"was",
+	"we",
+	"what",
+	"with",
+	"you",
+	"your",
+]);
+
+interface IndexedDocument {
+	id: string;
+	url: string;
+	content_hash: string;
+	indexed_at: string;
+	sections: Record<string, string>;
+	// term -> sections containing it, kept so reindexing only rewrites changed postings
+	terms: Record<string, string[]>;
+}
+
+type Postings = Record<string, string[]>;
+
+function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((t) => t.length >= MIN_TERM_LENGTH && !STOPWORDS.has(t));
+}
+
+// Build term -> sections for a parsed daemon.md
+function buildTerms(
+	sections: Record<string, string>,
+): Record<string, string[]> {
+	const terms: Record<string, string[]> = {};
+	let count = 0;
+	for (const [section, text] of Object.entries(sections)) {
+		if (SKIPPED_SECTIONS.has(section)) continue;
+		for (const term of new Set(
+			tokenize(`${section.replace(/_/g, " ")} ${text}`),
+		)) {
+			if (!terms[term]) {
+				if (count >= MAX_TERMS_PER_DOC) continue;
+				terms[term] = [];
+				count++;
+			}
+			terms[term].push(section);
+		}
+	}
+	return terms;
+}
+
+async function getDocument(
+	kv: KVNamespace,
+	id: string,
+): Promise<IndexedDocument | null> {
+	return kv.get<IndexedDocument>(`${KV_FTS_DOC_PREFIX}${id}`, "json");
+}
+
+async function getPostings(kv: KVNamespace, term: string): Promise<Postings> {
+	return (await kv.get<Postings>(`${KV_FTS_TERM_PREFIX}${term}`, "json")) || {};
+}
+
+// Apply term -> sections changes for one daemon to the shared postings
+async function writePostings(
+	kv: KVNamespace,
+	id: string,
+	previous: Record<string, string[]>,
+	next: Record<string, string[]>,
+): Promise<void> {
+	const changed = new Set<string>();
+	for (const term of new Set([
+		...Object.keys(previous),
+		...Object.keys(next),
+	])) {
+		if (JSON.stringify(previous[term]) !== JSON.stringify(next[term])) {
+			changed.add(term);
+		}
+	}
+
+	// Postings are written by the cron (one daemon at a time) and by withdrawals. A lost
+	// race leaves at most a stale posting, which search drops once the document is gone.
+	for (const term of changed) {
+		const postings = await getPostings(kv, term);
+		if (next[term]) {
+			postings[id] = next[term];
+		} else {
+			delete postings[id];
+		}
+
+		const key = `${KV_FTS_TERM_PREFIX}${term}`;
+		if (Object.keys(postings).length === 0) {
+			await kv.delete(key);
+		} else {
+			await kv.put(key, JSON.stringify(postings));
+		}
+	}
+}
+
+// Crawl a daemon's daemon.md and (re)index it; unchanged content is skipped
+export async function indexDaemonContent(
+	kv: KVNamespace,
+	entry: DaemonEntry,
+): Promise<{ indexed: boolean; sections?: number; error?: string }> {
+	const { content, error } = await fetchDaemonMd(entry.url);
+	if (content === undefined) {
+		return { indexed: false, error };
+	}
+
+	const contentHash = await sha256Hex(content);
+	const previous = await getDocument(kv, entry.id);
+	if (previous?.content_hash === contentHash && previous.url === entry.url) {
+		return { indexed: false, sections: Object.keys(previous.sections).length };
+	}
+
+	const sections = parseDaemonMd(content);
+	for (const section of SKIPPED_SECTIONS) delete sections[section];
+	const terms = buildTerms(sections);
+
+	await writePostings(kv, entry.id, previous?.terms || {}, terms);
+	const doc: IndexedDocument = {
+		id: entry.id,
+		url: entry.url,
+		content_hash: contentHash,
+		indexed_at: new Date().toISOString(),
+		sections,
+		terms,
+	};
+	await kv.put(`${KV_FTS_DOC_PREFIX}${entry.id}`, JSON.stringify(doc));
+
+	return { indexed: true, sections: Object.keys(sections).length };
+}
+
+// Drop a daemon from the index (withdrawn or no longer verified)
+export async function removeDaemonContent(
+	kv: KVNamespace,
+	id: string,
+): Promise<void> {
+	const previous = await getDocument(kv, id);
+	if (!previous) return;
+
+	await writePostings(kv, id, previous.terms, {});
+	await kv.delete(`${KV_FTS_DOC_PREFIX}${id}`);
+}
+
+// Excerpt around the first query term found in a section
+function makeSnippet(text: string, terms: string[]): string {
+	const lower = text.toLowerCase();
+	const positions = terms.map((t) => lower.indexOf(t)).filter((p) => p >= 0);
+	const at = positions.length > 0 ? Math.min(...positions) : 0;
+
+	const start = Math.max(0, at - SNIPPET_RADIUS);
+	const end = Math.min(text.length, at + SNIPPET_RADIUS);
+	const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+	return `${start > 0 ? "…" : ""}${excerpt}${end < text.length ? "…" : ""}`;
+}
+
+// Find daemons whose daemon.md sections contain every query term (optionally within one section)
+export async function searchDaemonContent(
+	kv: KVNamespace,
+	query: string,
+	section?: string,
+): Promise<Map<string, ContentMatch[]>> {
+	const results = new Map<string, ContentMatch[]>();
+	const terms = [...new Set(tokenize(query))];
+	if (terms.length === 0) return results;
+
+	const postings = await Promise.all(terms.map((t) => getPostings(kv, t)));
+	const wantedSection = section?.toUpperCase().replace(/\s+/g, "_");
+
+	// Sections per daemon that contain all terms
+	const [first, ...rest] = postings;
+	for (const [id, firstSections] of Object.entries(first)) {
+		let sections = firstSections;
+		for (const other of rest) {
+			sections = sections.filter((s) => other[id]?.includes(s));
+		}
+		if (wantedSection) {
+			sections = sections.filter((s) => s === wantedSection);
+		}
+		if (sections.length === 0) continue;
+
+		const doc = await getDocument(kv, id);
+		if (!doc) continue;
+		results.set(
+			id,
+			sections.map((s) => ({
+				section: s,
+				snippet: makeSnippet(doc.sections[s] || "", terms),
+			})),
+		);
+	}
+
+	return results;
+}
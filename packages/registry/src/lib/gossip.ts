@@ -0,0 +1,119 @@
+import type { DaemonEntry, Env, KnownDaemon, McpTransport } from "../types";
+import { callMcpTool } from "./mcp-client";
+import { findEntry } from "./resolve";
+import { recordDiscoveredDaemons } from "./kv";
+import { paginateEntries } from "./paginate";
+
+// Name of the peer discovery tool exposed by daemons (and by this registry)
+export const KNOWN_DAEMONS_TOOL = "get_known_daemons";
+
+// Upper bound on peers taken from one daemon's answer
+const MAX_PEERS_PER_DAEMON = 50;
+
+function isHttpUrl(value: unknown): value is string {
+	if (typeof value !== "string") return false;
+	try {
+		const { protocol } = new URL(value);
+		return protocol === "https:" || protocol === "http:";
+	} catch {
+		return false;
+	}
+}
+
+function optionalString(value: unknown): string | undefined {
+	return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+// What this registry answers to get_known_daemons: every listed daemon that isn't archived, by ID, one page at a time
+export function knownDaemonsFromRegistry(
+	entries: DaemonEntry[],
+	page: { limit?: number; cursor?: string } = {},
+): { daemons: KnownDaemon[]; total: number; next_cursor?: string } {
+	const {
+		entries: listed,
+		total,
+		next_cursor,
+	} = paginateEntries(
+		entries.filter((e) => !e.archived_at),
+		{ ...page, sort: "id" },
+	);
+	return {
+		daemons: listed.map((e) => ({
+			url: e.url,
+			mcp_url: e.mcp_url,
+			owner: e.owner,
+			id: e.id,
+		})),
+		total,
+		next_cursor,
+	};
+}
+
+/**
+ * Parse a get_known_daemons answer: `{ "daemons": [{ "url", "mcp_url"?, "owner"?, "id"? }] }`
+ * or a bare array of those. Entries without an http(s) url are dropped.
+ */
+export function parseKnownDaemons(text: string): KnownDaemon[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch {
+		return [];
+	}
+
+	const list = Array.isArray(parsed)
+		? parsed
+		: (parsed as { daemons?: unknown })?.daemons;
+	if (!Array.isArray(list)) return [];
+
+	const peers = new Map<string, KnownDaemon>();
+	for (const item of list) {
+		const url = typeof item === "string" ? item : item?.url;
+		if (!isHttpUrl(url) || peers.has(url)) continue;
+		peers.set(url, {
+			url,
+			mcp_url: isHttpUrl(item?.mcp_url) ? item.mcp_url : undefined,
+			owner: optionalString(item?.owner),
+			id: optionalString(item?.id),
+		});
+		if (peers.size >= MAX_PEERS_PER_DAEMON) break;
+	}
+	return [...peers.values()];
+}
+
+/**
+ * Ask a daemon for the peers it knows and queue the ones the registry doesn't list as
+ * discovered candidates, recording the daemon as the referrer. Returns the number of new candidates.
+ */
+export async function crawlDaemonPeers(
+	env: Env,
+	entry: DaemonEntry,
+	transport: McpTransport,
+	registryEntries: DaemonEntry[],
+): Promise<{ discovered: number; error?: string }> {
+	const result = await callMcpTool(
+		entry.mcp_url || entry.url,
+		transport,
+		KNOWN_DAEMONS_TOOL,
+	);
+	if (result.text === undefined) {
+		return { discovered: 0, error: result.error };
+	}
+
+	const unknown = parseKnownDaemons(result.text).filter(
+		(peer) =>
+			!findEntry(registryEntries, { url: peer.url }) &&
+			!(peer.mcp_url && findEntry(registryEntries, { url: peer.mcp_url })),
+	);
+	if (unknown.length === 0) {
+		return { discovered: 0 };
+	}
+
+	return {
+		discovered: await recordDiscoveredDaemons(
+			env,
+			{ id: entry.id, url: entry.url },
+			unknown,
+		),
+	};
+}
@@ -0,0 +1,72 @@
+function toHex(bytes: ArrayBuffer): string {
+	return Array.from(new Uint8Array(bytes), (b) =>
+		b.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+// Hex-encoded SHA-256 digest
+export async function sha256Hex(value: string): Promise<string> {
+	return toHex(
+		await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)),
+	);
+}
+
+// Hex-encoded HMAC-SHA256 of the payload
+export async function hmacSha256Hex(
+	secret: string,
+	payload: string,
+): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(payload)));
+}
+
+// Hex-encoded Ed25519 signature of the payload
+export async function ed25519SignHex(
+	privateKey: CryptoKey,
+	payload: string,
+): Promise<string> {
+	return toHex(
+		await crypto.subtle.sign(
+			"Ed25519",
+			privateKey,
+			new TextEncoder().encode(payload),
+		),
+	);
+}
+
+// Check a hex-encoded Ed25519 signature; malformed signatures simply fail
+export async function ed25519VerifyHex(
+	publicKey: CryptoKey,
+	signature: string,
+	payload: string,
+): Promise<boolean> {
+	if (!/^[0-9a-f]{128}$/.test(signature)) return false;
+	const bytes = new Uint8Array(
+		signature.match(/../g)?.map((b) => Number.parseInt(b, 16)) || [],
+	);
+	return crypto.subtle.verify(
+		"Ed25519",
+		publicKey,
+		bytes,
+		new TextEncoder().encode(payload),
+	);
+}
+
+// Compare two strings in time that depends only on their lengths, not on where they differ
+export function constantTimeEqual(a: string, b: string): boolean {
+	const encoder = new TextEncoder();
+	const left = encoder.encode(a);
+	const right = encoder.encode(b);
+	let diff = left.length ^ right.length;
+	for (let i = 0; i < Math.max(left.length, right.length); i++) {
+		diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+	}
+	return diff === 0;
+}
@@ -0,0 +1,122 @@
+import type {
+	DaemonEntry,
+	HealthHistory,
+	StatusTransition,
+	UptimeReport,
+} from "../types";
+
+// History retention
+const HISTORY_RETENTION_DAYS = 90;
+const MAX_TRANSITIONS = 500;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Uptime windows reported by daemon_registry_uptime
+const UPTIME_WINDOWS_MS = {
+	"24h": DAY_MS,
+	"7d": 7 * DAY_MS,
+	"30d": 30 * DAY_MS,
+} as const;
+
+function hourOf(timestamp: string): string {
+	const time = Date.parse(timestamp);
+	return new Date(time - (time % HOUR_MS)).toISOString();
+}
+
+function isOnline(status: DaemonEntry["status"]): boolean {
+	return !!status && status !== "offline";
+}
+
+// Fold one health check result into a daemon's history, dropping data past retention
+export function recordHealthSample(
+	history: HealthHistory | null | undefined,
+	id: string,
+	update: Partial<DaemonEntry>,
+): HealthHistory {
+	const next: HealthHistory = history
+		? {
+				...history,
+				buckets: [...history.buckets],
+				transitions: [...history.transitions],
+			}
+		: { id, buckets: [], transitions: [] };
+
+	const checkedAt = update.last_checked || new Date().toISOString();
+	const online = isOnline(update.status);
+
+	// Hourly bucket
+	const hour = hourOf(checkedAt);
+	const last = next.buckets[next.buckets.length - 1];
+	if (last?.hour === hour) {
+		next.buckets[next.buckets.length - 1] = {
+			...last,
+			checks: last.checks + 1,
+			online: last.online + (online ? 1 : 0),
+		};
+	} else {
+		next.buckets.push({ hour, checks: 1, online: online ? 1 : 0 });
+	}
+
+	// Status transitions
+	if (update.status && update.status !== next.last_status) {
+		next.transitions.push({
+			at: checkedAt,
+			from: next.last_status,
+			to: update.status,
+		});
+	}
+	if (update.status) next.last_status = update.status;
+	if (online) next.last_online_at = checkedAt;
+
+	const cutoff = Date.parse(checkedAt) - HISTORY_RETENTION_DAYS * DAY_MS;
+	next.buckets = next.buckets.filter((b) => Date.parse(b.hour) >= cutoff);
+	next.transitions = next.transitions
+		.filter((t) => Date.parse(t.at) >= cutoff)
+		.slice(-MAX_TRANSITIONS);
+
+	return next;
+}
+
+// Summarize a daemon's history into uptime percentages for the standard windows
+export function computeUptime(
+	id: string,
+	history: HealthHistory | null | undefined,
+	now = Date.now(),
+): UptimeReport {
+	const buckets = history?.buckets || [];
+	const uptime = {} as UptimeReport["uptime"];
+	const checks = {} as UptimeReport["checks"];
+
+	for (const [window, span] of Object.entries(UPTIME_WINDOWS_MS) as [
+		keyof typeof UPTIME_WINDOWS_MS,
+		number,
+	][]) {
+		const since = now - span;
+		let total = 0;
+		let online = 0;
+		for (const bucket of buckets) {
+			// Count a bucket if any part of its hour falls inside the window
+			if (Date.parse(bucket.hour) + HOUR_MS <= since) continue;
+			total += bucket.checks;
+			online += bucket.online;
+		}
+		checks[window] = total;
+		uptime[window] =
+			total > 0 ? Math.round((online / total) * 10000) / 100 : null;
+	}
+
+	const transitionsSince = now - UPTIME_WINDOWS_MS["30d"];
+	const transitions: StatusTransition[] = (history?.transitions || []).filter(
+		(t) => Date.parse(t.at) >= transitionsSince,
+	);
+
+	return {
+		id,
+		uptime,
+		checks,
+		transitions,
+		last_online_at: history?.last_online_at,
+		current_status: history?.last_status,
+	};
+}
@@ -1,4 +1,15 @@
-import type { DaemonEntry } from "../types";
+import type {
+	DaemonEntry,
+	DaemonEndpoint,
+	DetectedProtocol,
+	EndpointStatus,
+	McpHandshake,
+	ProbeCheck,
+	ProbeReport,
+} from "../types";
+import { getDaemonMdUrl, hashDaemonMd } from "./daemon-md";
+import { probe } from "./probe";
+import { probeMcpServer } from "./mcp-client";
 
 // Health check jitter config
 const HEALTH_CHECK_INTERVAL_MINUTES = 60;
@@ -8,7 +19,7 @@ function hashCode(str: string): number {
 	let hash = 0;
 	for (let i = 0; i < str.length; i++) {
 		const char = str.charCodeAt(i);
-		hash = ((hash << 5) - hash) + char;
+		hash = (hash << 5) - hash + char;
 		hash = hash & hash; // Convert to 32bit integer
 	}
 	return Math.abs(hash);
@@ -19,110 +30,186 @@ export function getDaemonCheckMinute(url: string): number {
 	return hashCode(url) % HEALTH_CHECK_INTERVAL_MINUTES;
 }
 
-// Verify a daemon by fetching its daemon.md
-export async function verifyDaemon(daemonUrl: string): Promise<{ verified: boolean; error?: string }> {
-	const baseUrl = daemonUrl.endsWith("/") ? daemonUrl : `${daemonUrl}/`;
-	const daemonMdUrl = `${baseUrl}daemon.md`;
+// One-line explanation of a probe, e.g. "daemon.md returned 404 after a redirect to https://www.example.com/daemon.md"
+export function describeProbe(report: ProbeReport): string {
+	const labels: Record<ProbeCheck, string> = {
+		web: "web page",
+		mcp: "MCP endpoint",
+		api: "API endpoint",
+		daemon_md: "daemon.md",
+	};
+	const outcome = report.ok
+		? `OK (HTTP ${report.http_status}${report.latency_ms !== undefined ? `, ${report.latency_ms}ms` : ""})`
+		: report.http_status && report.error === `HTTP ${report.http_status}`
+			? `returned ${report.http_status}`
+			: `failed: ${report.error}`;
+	const redirected =
+		report.redirects.length > 0
+			? ` after ${report.redirects.length === 1 ? "a redirect" : `${report.redirects.length} redirects`} to ${report.final_url}`
+			: "";
+	return `${labels[report.check]} ${outcome}${redirected}`;
+}
 
-	try {
-		const response = await fetch(daemonMdUrl, {
-			headers: { "User-Agent": "DaemonRegistry/1.0" },
-			signal: AbortSignal.timeout(10000),
-		});
+// Get the hour (UTC) of a daemon's daily peer crawl, spread the same way as check minutes
+export function getDaemonCrawlHour(url: string): number {
+	return Math.floor(hashCode(url) / HEALTH_CHECK_INTERVAL_MINUTES) % 24;
+}
 
-		if (!response.ok) {
-			return { verified: false, error: `HTTP ${response.status}` };
-		}
+// Verify a daemon by fetching its daemon.md
+export async function verifyDaemon(daemonUrl: string): Promise<{
+	verified: boolean;
+	error?: string;
+	probe: ProbeReport;
+	content?: string;
+}> {
+	const { report, response } = await probe(
+		"daemon_md",
+		getDaemonMdUrl(daemonUrl),
+		{ method: "GET" },
+	);
+	if (!response || !report.ok) {
+		return { verified: false, error: report.error, probe: report };
+	}
 
+	try {
 		const content = await response.text();
 
 		// Basic validation: should have at least one section header
 		if (!content.includes("[") || content.length < 50) {
-			return { verified: false, error: "Invalid daemon.md format" };
+			const invalid = {
+				...report,
+				ok: false,
+				error: "Invalid daemon.md format",
+			};
+			return { verified: false, error: invalid.error, probe: invalid };
 		}
 
-		return { verified: true };
+		return { verified: true, probe: report, content };
 	} catch (e) {
 		const error = e instanceof Error ? e.message : "Unknown error";
-		return { verified: false, error };
+		return { verified: false, error, probe: { ...report, ok: false, error } };
 	}
 }
 
-// Check if URL responds to MCP tools/list
-export async function checkMcpCapability(daemonUrl: string): Promise<boolean> {
+// Check if URL speaks MCP (handshake over Streamable HTTP or SSE, or plain JSON-RPC tools/list)
+export async function checkMcpCapability(
+	daemonUrl: string,
+): Promise<{ report: ProbeReport; handshake?: McpHandshake }> {
 	const baseUrl = daemonUrl.endsWith("/") ? daemonUrl.slice(0, -1) : daemonUrl;
 
-	try {
-		const response = await fetch(baseUrl, {
-			method: "POST",
-			headers: {
-				"Content-Type": "application/json",
-				"User-Agent": "DaemonRegistry/1.0"
-			},
-			body: JSON.stringify({
-				jsonrpc: "2.0",
-				method: "tools/list",
-				id: 1
-			}),
-			signal: AbortSignal.timeout(10000),
-		});
-
-		if (!response.ok) return false;
-
-		const data = await response.json() as { result?: { tools?: unknown[] } };
-		return data?.result?.tools !== undefined;
-	} catch {
-		return false;
+	const result = await probeMcpServer(baseUrl);
+	if (!result.report.ok || !result.transport) {
+		return { report: result.report };
 	}
+
+	return {
+		report: result.report,
+		handshake: {
+			transport: result.transport,
+			protocol_version: result.protocol_version,
+			server_info: result.server_info,
+			tool_count: result.tools.length,
+			resource_count: result.resources.length,
+			prompt_count: result.prompts.length,
+		},
+	};
 }
 
 // Check if URL is reachable as a web page
-export async function checkWebReachable(daemonUrl: string): Promise<boolean> {
-	try {
-		const response = await fetch(daemonUrl, {
-			method: "GET",
-			headers: { "User-Agent": "DaemonRegistry/1.0" },
-			signal: AbortSignal.timeout(10000),
-		});
-		return response.ok;
-	} catch {
-		return false;
-	}
+export async function checkWebReachable(
+	daemonUrl: string,
+): Promise<ProbeReport> {
+	const { report, response } = await probe("web", daemonUrl, { method: "GET" });
+	// Only headers matter; release the body
+	await response?.body?.cancel();
+	return report;
+}
+
+// Check if an API endpoint answers. APIs often reject a bare GET (405, 401), so any
+// response below 500 other than 404 counts as up.
+export async function checkApiReachable(apiUrl: string): Promise<ProbeReport> {
+	const { report, response } = await probe("api", apiUrl, { method: "GET" });
+	await response?.body?.cancel();
+	if (!response || report.http_status === undefined) return report;
+
+	const up = report.http_status < 500 && report.http_status !== 404;
+	return { ...report, ok: up, error: up ? undefined : report.error };
+}
+
+// Classify what a daemon actually speaks from its probe results (most capable first)
+export function classifyProtocol(
+	handshake: McpHandshake | undefined,
+	probes: Partial<Record<ProbeCheck, ProbeReport>>,
+): DetectedProtocol {
+	if (handshake?.transport === "streamable_http") return "mcp-streamable-http";
+	if (handshake?.transport === "sse") return "mcp-sse";
+	if (handshake?.transport === "json_rpc") return "json-rpc";
+
+	const servesJson = (report?: ProbeReport) =>
+		!!report?.ok && !!report.content_type?.includes("json");
+	if (servesJson(probes.api) || servesJson(probes.web)) return "rest";
+	if (probes.daemon_md?.ok) return "daemon-md";
+	return "unknown";
 }
 
 // Health check a daemon (called by cron)
-export async function healthCheckDaemon(entry: DaemonEntry): Promise<Partial<DaemonEntry>> {
+export async function healthCheckDaemon(
+	entry: DaemonEntry,
+): Promise<Partial<DaemonEntry>> {
 	const now = new Date().toISOString();
 
-	// Check both web and MCP availability in parallel
-	const [webReachable, mcpReachable] = await Promise.all([
+	// Probe every declared endpoint, plus daemon.md (legacy verification), in parallel
+	const [web, { report: mcp, handshake }, api, daemonMd] = await Promise.all([
 		checkWebReachable(entry.url),
-		checkMcpCapability(entry.url)
+		checkMcpCapability(entry.mcp_url || entry.url),
+		entry.api_url
+			? checkApiReachable(entry.api_url)
+			: Promise.resolve(undefined),
+		verifyDaemon(entry.url),
 	]);
+	const probes: Partial<Record<ProbeCheck, ProbeReport>> = {
+		web,
+		mcp,
+		daemon_md: daemonMd.probe,
+	};
+	if (api) probes.api = api;
 
-	// Also check daemon.md for legacy verification
-	const { verified } = await verifyDaemon(entry.url);
+	const endpoints: Partial<Record<DaemonEndpoint, EndpointStatus>> = {
+		url: { url: entry.url, up: web.ok, probe: "web" },
+	};
+	if (entry.mcp_url)
+		endpoints.mcp_url = { url: entry.mcp_url, up: mcp.ok, probe: "mcp" };
+	if (entry.api_url && api)
+		endpoints.api_url = { url: entry.api_url, up: api.ok, probe: "api" };
+
+	// Hash daemon.md so changes can be detected between checks
+	const hashes = daemonMd.content ? await hashDaemonMd(daemonMd.content) : {};
+
+	const declared = Object.values(endpoints);
+	const anyUp = declared.some((e) => e.up) || mcp.ok;
+	const checked = { last_checked: now, endpoints, probes };
+
+	// Determine status: offline < degraded < web < mcp
+	// An offline daemon keeps its last detected_protocol and content hashes
+	if (!anyUp && !daemonMd.verified) {
+		return { ...checked, status: "offline", healthy: false };
+	}
+
+	const detected = {
+		detected_protocol: classifyProtocol(handshake, probes),
+		mcp_server: handshake,
+		...hashes,
+	};
 
-	// Determine status: mcp > web > offline
-	if (mcpReachable || verified) {
-		return {
-			last_checked: now,
-			status: "mcp",
-			healthy: true,
-		};
+	// Some declared endpoints answer and others don't (e.g. website up, MCP server down)
+	if (declared.some((e) => !e.up)) {
+		return { ...checked, ...detected, status: "degraded", healthy: false };
 	}
 
-	if (webReachable) {
-		return {
-			last_checked: now,
-			status: "web",
-			healthy: true,
-		};
+	// A daemon.md on the landing URL only counts as MCP when no separate mcp_url is declared
+	if (mcp.ok || (daemonMd.verified && !entry.mcp_url)) {
+		return { ...checked, ...detected, status: "mcp", healthy: true };
 	}
 
-	return {
-		last_checked: now,
-		status: "offline",
-		healthy: false,
-	};
+	return { ...checked, ...detected, status: "web", healthy: true };
 }
@@ -1,102 +1,555 @@
-import type { DaemonEntry, Registry, ActivityEvent } from "../types";
+import type {
+	DaemonEntry,
+	Registry,
+	ActivityEvent,
+	OwnershipChallenge,
+	HealthHistory,
+	KnownDaemon,
+	DiscoveredDaemon,
+	Vouch,
+	WebhookFilters,
+	WebhookSubscription,
+	Env,
+} from "../types";
+import type { RegistryState } from "../registry-state";
+import type { ActivityQuery } from "./activity-log";
 import seedRegistry from "../../seed-registry.json";
+import { getFederatedRegistries, mergeMirroredEntries } from "./federation";
+import { deriveIdFromUrl } from "./resolve";
 
-/**
- * Derive a namespace-based ID from a daemon URL.
- * Used as fallback for entries missing an ID (pre-v1.1.0 announced daemons).
- */
-function deriveIdFromUrl(url: string, owner?: string): string {
-	try {
-		const parsed = new URL(url);
-		const host = parsed.hostname;
-		const parts = host.split('.').reverse();
-		const pathPart = parsed.pathname.replace(/^\/|\/$/g, '').split('/')[0];
-		let identifier = pathPart || 'daemon';
-		if (owner) {
-			identifier = owner.toLowerCase().replace(/[^a-z0-9]/g, '').substring(0, 20) || identifier;
-		}
-		return [...parts, identifier].join('.');
-	} catch {
-		return `unknown.${url.replace(/[^a-z0-9]/gi, '').substring(0, 32)}`;
-	}
+// KV keys
+const KV_LEGACY_ANNOUNCED_KEY = "announced_daemons"; // pre-per-entry storage blob, imported by RegistryState
+const KV_DAEMON_PREFIX = "daemon:"; // per-entry cache, written through by RegistryState
+const KV_REGISTRY_CACHE_KEY = "registry_cache"; // cache of all stored entries, written by RegistryState
+const KV_MIRROR_CACHE_KEY = "mirror_cache"; // cache of entries mirrored from peer registries, written by RegistryState
+const KV_VOUCH_CACHE_KEY = "vouch_cache"; // cache of web of trust edges, written by RegistryState
+const KV_VOUCH_KEY_CACHE_KEY = "vouch_public_key"; // the vouch signing public key (never changes once created)
+const KV_SEED_HEALTH_CACHE_KEY = "seed_health_cache"; // cache of seed health records, written by RegistryState
+const KV_LEGACY_ACTIVITY_KEY = "activity_feed"; // pre-log activity blob, imported by RegistryState
+const KV_OWNERSHIP_PREFIX = "ownership:"; // legacy challenge per daemon ID, imported by RegistryState
+const KV_PENDING_OWNERSHIP_PREFIX = "ownership_pending:"; // legacy ownership_pending:<id>:<token>, imported by RegistryState
+
+// RegistryState rewrites the caches after every commit; the TTL only bounds how long a cache
+// whose write failed can be served
+const REGISTRY_CACHE_TTL_SECONDS = 60 * 60;
+
+// Events served by feeds and stream replay (the full log is paged with queryActivity)
+const ACTIVITY_FEED_RECENT_EVENTS = 100;
+
+// Every activity event type, for tool schemas
+export const ACTIVITY_EVENT_TYPES: ActivityEvent["type"][] = [
+	"daemon_announced",
+	"daemon_updated",
+	"daemon_removed",
+	"health_changed",
+	"daemon_verified",
+	"daemon_archived",
+	"daemon_revived",
+	"daemon_content_changed",
+	"verification_lost",
+	"daemon_vouched",
+];
+
+// Name of the single RegistryState instance
+const REGISTRY_STATE_NAME = "registry";
+
+// Lightweight index stored as KV key metadata
+interface DaemonKeyMetadata {
+	url: string;
+	withdrawn?: boolean;
 }
 
-// KV keys
-const KV_ANNOUNCED_KEY = "announced_daemons";
-const KV_ACTIVITY_KEY = "activity_feed";
+const SEED_IDS = new Set(
+	(seedRegistry.entries as unknown as DaemonEntry[]).map((e) => e.id),
+);
 
-// Activity feed config
-const ACTIVITY_FEED_MAX_EVENTS = 100;
+// Whether an ID belongs to a bundled seed entry
+export function isSeedDaemon(id: string): boolean {
+	return SEED_IDS.has(id);
+}
+
+// Stub for the RegistryState Durable Object (single writer for registry state)
+function getRegistryState(env: Env): DurableObjectStub<RegistryState> {
+	return env.REGISTRY_STATE.get(
+		env.REGISTRY_STATE.idFromName(REGISTRY_STATE_NAME),
+	);
+}
 
-// Load registry from seed + KV
-export async function loadRegistry(kv?: KVNamespace): Promise<Registry> {
+// Load registry from seed + stored entries
+export async function loadRegistry(env?: Env): Promise<Registry> {
 	// Start with seed entries
-	const entries: DaemonEntry[] = (seedRegistry.entries as unknown as DaemonEntry[]).map(e => ({ ...e }));
+	const entries: DaemonEntry[] = (
+		seedRegistry.entries as unknown as DaemonEntry[]
+	).map((e) => ({ ...e }));
 
-	// Load announced daemons from KV if available
-	if (kv) {
+	// Load stored daemons if storage is available
+	let merged = entries;
+	if (env) {
+		// Health, lifecycle and content fields from the cron go on top of the bundled seed data
 		try {
-			const announced = await kv.get<DaemonEntry[]>(KV_ANNOUNCED_KEY, "json");
-			if (announced && Array.isArray(announced)) {
-				entries.push(...announced);
+			const seedHealth = await listSeedHealth(env);
+			for (const [idx, entry] of entries.entries()) {
+				const health = seedHealth[entry.id];
+				if (health) entries[idx] = { ...entry, ...health };
 			}
 		} catch (e) {
-			console.error("Failed to load announced daemons from KV:", e);
+			console.error("Failed to load seed health:", e);
 		}
-	}
 
-	// Ensure all entries have IDs (backfill for pre-v1.1.0 announced daemons)
-	for (const entry of entries) {
-		if (!entry.id) {
-			entry.id = deriveIdFromUrl(entry.url, entry.owner);
+		try {
+			for (const entry of await listStoredDaemons(env)) {
+				// Stored entries override seed entries with the same ID (owner updates)
+				const idx = entries.findIndex((e) => e.id === entry.id);
+				if (idx >= 0) {
+					entries[idx] = entry;
+				} else {
+					entries.push(entry);
+				}
+			}
+		} catch (e) {
+			console.error("Failed to load announced daemons:", e);
+		}
+
+		// Entries mirrored from peer registries fill in IDs this registry doesn't hold
+		const registries = getFederatedRegistries(env);
+		if (registries.length > 0) {
+			try {
+				merged = mergeMirroredEntries(
+					entries,
+					await listMirroredDaemons(env),
+					registries,
+				);
+			} catch (e) {
+				console.error("Failed to load mirrored daemons:", e);
+			}
 		}
 	}
 
 	return {
 		version: seedRegistry.version,
-		entries,
+		// Withdrawn entries stay stored as tombstones but are no longer listed or checked
+		entries: merged.filter((e) => !e.withdrawn_at),
 		updated: new Date().toISOString(),
 	};
 }
 
-// Activity feed functions
-export async function loadActivityFeed(kv: KVNamespace): Promise<ActivityEvent[]> {
+// Read entries from the pre-Durable Object KV layouts (legacy blob and per-entry keys)
+export async function loadLegacyDaemonsFromKV(
+	kv: KVNamespace,
+): Promise<DaemonEntry[]> {
+	const byId = new Map<string, DaemonEntry>();
+
+	const legacy = await kv.get<DaemonEntry[]>(KV_LEGACY_ANNOUNCED_KEY, "json");
+	for (const entry of Array.isArray(legacy) ? legacy : []) {
+		// Backfill IDs for pre-v1.1.0 announced daemons
+		const id = entry.id || deriveIdFromUrl(entry.url, entry.owner);
+		byId.set(id, { ...entry, id });
+	}
+
+	// Per-entry keys are newer than the blob, so they win
+	let cursor: string | undefined;
+	do {
+		const page = await kv.list({ prefix: KV_DAEMON_PREFIX, cursor });
+		for (const key of page.keys) {
+			const entry = await kv.get<DaemonEntry>(key.name, "json");
+			if (entry) byId.set(entry.id, entry);
+		}
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	return [...byId.values()];
+}
+
+// List every stored entry (announced daemons, seed overrides and tombstones) - KV first, then
+// RegistryState (which refills the cache)
+export async function listStoredDaemons(env: Env): Promise<DaemonEntry[]> {
+	const cached = await env.REGISTRY_DATA.get<DaemonEntry[]>(
+		KV_REGISTRY_CACHE_KEY,
+		"json",
+	);
+	if (cached) return cached;
+
+	return (await getRegistryState(env).listEntries()) as DaemonEntry[];
+}
+
+// List entries mirrored from peer registries (every source) - KV first, then RegistryState
+export async function listMirroredDaemons(env: Env): Promise<DaemonEntry[]> {
+	const cached = await env.REGISTRY_DATA.get<DaemonEntry[]>(
+		KV_MIRROR_CACHE_KEY,
+		"json",
+	);
+	if (cached) return cached;
+
+	return (await getRegistryState(env).listMirrored()) as DaemonEntry[];
+}
+
+// Health records of seeds without a stored copy, by seed ID - KV first, then RegistryState
+export async function listSeedHealth(
+	env: Env,
+): Promise<Record<string, Partial<DaemonEntry>>> {
+	const cached = await env.REGISTRY_DATA.get<
+		Record<string, Partial<DaemonEntry>>
+	>(KV_SEED_HEALTH_CACHE_KEY, "json");
+	if (cached) return cached;
+
+	return (await getRegistryState(env).listSeedHealth()) as Record<
+		string,
+		Partial<DaemonEntry>
+	>;
+}
+
+// Replace everything mirrored from one peer registry with a fresh pull
+export async function replaceMirroredDaemons(
+	env: Env,
+	source: string,
+	entries: DaemonEntry[],
+): Promise<void> {
+	await getRegistryState(env).replaceMirror(source, entries);
+}
+
+// Every web of trust edge - KV first, then RegistryState
+export async function listVouches(env: Env): Promise<Vouch[]> {
+	const cached = await env.REGISTRY_DATA.get<Vouch[]>(
+		KV_VOUCH_CACHE_KEY,
+		"json",
+	);
+	if (cached) return cached;
+
+	return (await getRegistryState(env).listVouches()) as Vouch[];
+}
+
+// Store an edge; RegistryState signs it with the registry's vouch key
+export async function putVouch(
+	env: Env,
+	edge: Omit<Vouch, "signature">,
+): Promise<Vouch> {
+	return (await getRegistryState(env).putVouch(edge)) as Vouch;
+}
+
+// Public key that verifies vouch signatures (an Ed25519 JWK) - KV first, then RegistryState
+export async function getVouchPublicKey(env: Env): Promise<JsonWebKey> {
+	const cached = await env.REGISTRY_DATA.get<JsonWebKey>(
+		KV_VOUCH_KEY_CACHE_KEY,
+		"json",
+	);
+	if (cached) return cached;
+
+	return (await getRegistryState(env).getVouchPublicKey()) as JsonWebKey;
+}
+
+// Remove one edge, or every edge from the voucher when targetId is omitted
+export async function deleteVouches(
+	env: Env,
+	voucherId: string,
+	targetId?: string,
+): Promise<number> {
+	return await getRegistryState(env).deleteVouches(voucherId, targetId);
+}
+
+// Insert a newly announced entry; false if an active entry already holds its ID or URL
+export async function insertStoredDaemon(
+	env: Env,
+	entry: DaemonEntry,
+	supersededIds: string[],
+): Promise<boolean> {
+	return getRegistryState(env).insertEntry(entry, supersededIds);
+}
+
+// Merge an update into a stored entry. Seed entries without a stored copy are only
+// written when a fallback entry is given, so health results don't pin seed data.
+export async function updateStoredDaemon(
+	env: Env,
+	id: string,
+	update: Partial<DaemonEntry>,
+	fallback?: DaemonEntry,
+): Promise<DaemonEntry | null> {
+	return (await getRegistryState(env).updateEntry(
+		id,
+		update,
+		fallback,
+	)) as DaemonEntry | null;
+}
+
+// Apply a batch of health results in one transaction (only scheduled ones enter health history)
+export async function applyHealthResults(
+	env: Env,
+	results: { id: string; update: Partial<DaemonEntry> }[],
+	options: { scheduled: boolean },
+): Promise<DaemonEntry[]> {
+	return (await getRegistryState(env).applyHealthResults(
+		results,
+		options,
+	)) as DaemonEntry[];
+}
+
+// Health history for one daemon (hourly buckets, status transitions)
+export async function getHealthHistory(
+	env: Env,
+	id: string,
+): Promise<HealthHistory | null> {
+	return (await getRegistryState(env).getHealthHistory(
+		id,
+	)) as HealthHistory | null;
+}
+
+// The bundled seed entry with this ID, if any
+export function getSeedDaemon(id: string): DaemonEntry | null {
+	return (
+		(seedRegistry.entries as unknown as DaemonEntry[]).find(
+			(e) => e.id === id,
+		) || null
+	);
+}
+
+// Queue peers found by gossip as discovered candidates; returns how many were new
+export async function recordDiscoveredDaemons(
+	env: Env,
+	referrer: { id: string; url: string },
+	peers: KnownDaemon[],
+): Promise<number> {
+	return await getRegistryState(env).recordDiscovered(referrer, peers);
+}
+
+// Discovered candidates, most-referred first
+export async function listDiscoveredDaemons(
+	env: Env,
+): Promise<DiscoveredDaemon[]> {
+	return (await getRegistryState(env).listDiscovered()) as DiscoveredDaemon[];
+}
+
+// KV cache maintenance (called by RegistryState after each commit)
+export async function cacheStoredDaemon(
+	kv: KVNamespace,
+	entry: DaemonEntry,
+): Promise<void> {
+	const metadata: DaemonKeyMetadata = {
+		url: entry.url,
+		withdrawn: !!entry.withdrawn_at,
+	};
+	await kv.put(`${KV_DAEMON_PREFIX}${entry.id}`, JSON.stringify(entry), {
+		metadata,
+	});
+}
+
+export async function uncacheStoredDaemon(
+	kv: KVNamespace,
+	id: string,
+): Promise<void> {
+	await kv.delete(`${KV_DAEMON_PREFIX}${id}`);
+}
+
+export async function cacheStoredDaemons(
+	kv: KVNamespace,
+	entries: DaemonEntry[],
+): Promise<void> {
+	await kv.put(KV_REGISTRY_CACHE_KEY, JSON.stringify(entries), {
+		expirationTtl: REGISTRY_CACHE_TTL_SECONDS,
+	});
+}
+
+export async function cacheMirroredDaemons(
+	kv: KVNamespace,
+	entries: DaemonEntry[],
+): Promise<void> {
+	await kv.put(KV_MIRROR_CACHE_KEY, JSON.stringify(entries), {
+		expirationTtl: REGISTRY_CACHE_TTL_SECONDS,
+	});
+}
+
+export async function cacheSeedHealth(
+	kv: KVNamespace,
+	health: Record<string, Partial<DaemonEntry>>,
+): Promise<void> {
+	await kv.put(KV_SEED_HEALTH_CACHE_KEY, JSON.stringify(health), {
+		expirationTtl: REGISTRY_CACHE_TTL_SECONDS,
+	});
+}
+
+export async function cacheVouches(
+	kv: KVNamespace,
+	vouches: Vouch[],
+): Promise<void> {
+	await kv.put(KV_VOUCH_CACHE_KEY, JSON.stringify(vouches), {
+		expirationTtl: REGISTRY_CACHE_TTL_SECONDS,
+	});
+}
+
+export async function cacheVouchPublicKey(
+	kv: KVNamespace,
+	publicKey: JsonWebKey,
+): Promise<void> {
+	await kv.put(KV_VOUCH_KEY_CACHE_KEY, JSON.stringify(publicKey));
+}
+
+// Open a live activity stream (server-sent events), held by RegistryState
+export async function openActivityStream(
+	env: Env,
+	request: Request,
+): Promise<Response> {
+	return getRegistryState(env).fetch(request);
+}
+
+// Read the pre-Durable Object activity feed (a single KV blob, newest first), imported by RegistryState
+export async function loadLegacyActivityFeed(
+	kv: KVNamespace,
+): Promise<ActivityEvent[]> {
 	try {
-		const events = await kv.get<ActivityEvent[]>(KV_ACTIVITY_KEY, "json");
-		return events || [];
+		const events = await kv.get<ActivityEvent[]>(
+			KV_LEGACY_ACTIVITY_KEY,
+			"json",
+		);
+		return Array.isArray(events) ? events : [];
 	} catch (e) {
-		console.error("Failed to load activity feed from KV:", e);
+		console.error("Failed to load legacy activity feed from KV:", e);
 		return [];
 	}
 }
 
-export async function addActivityEvent(kv: KVNamespace, event: Omit<ActivityEvent, "timestamp">): Promise<void> {
-	const events = await loadActivityFeed(kv);
-	const newEvent: ActivityEvent = {
-		...event,
-		timestamp: new Date().toISOString(),
+// Most recent matching activity events, newest first (feeds, stream replay, the registry://activity resource)
+export async function loadActivityFeed(
+	env: Env,
+	filters: Pick<ActivityQuery, "types" | "daemon_ids" | "daemon_urls"> = {},
+): Promise<ActivityEvent[]> {
+	const { events } = await queryActivity(env, {
+		...filters,
+		limit: ACTIVITY_FEED_RECENT_EVENTS,
+	});
+	return events;
+}
+
+// Page through the activity log, newest first
+export async function queryActivity(
+	env: Env,
+	query: ActivityQuery,
+): Promise<{ events: ActivityEvent[]; next_cursor?: string }> {
+	return (await getRegistryState(env).queryActivity(query)) as {
+		events: ActivityEvent[];
+		next_cursor?: string;
 	};
+}
 
-	// Add to front, keep max events
-	events.unshift(newEvent);
-	if (events.length > ACTIVITY_FEED_MAX_EVENTS) {
-		events.length = ACTIVITY_FEED_MAX_EVENTS;
-	}
+export async function getActivityEvent(
+	env: Env,
+	id: string,
+): Promise<ActivityEvent | null> {
+	return (await getRegistryState(env).getActivity(id)) as ActivityEvent | null;
+}
 
-	await kv.put(KV_ACTIVITY_KEY, JSON.stringify(events));
+// Append an event to the activity log. RegistryState assigns its ID, pushes it to open streams
+// and queues webhook deliveries, which it sends from its alarm rather than inside this call.
+export async function addActivityEvent(
+	env: Env,
+	event: Omit<ActivityEvent, "id" | "timestamp">,
+): Promise<ActivityEvent> {
+	return (await getRegistryState(env).appendActivity(event)) as ActivityEvent;
 }
 
-// Save announced daemons to KV
-export async function saveAnnouncedToKV(kv: KVNamespace, announced: DaemonEntry[]): Promise<void> {
-	await kv.put(KV_ANNOUNCED_KEY, JSON.stringify(announced));
+// Register a webhook (RegistryState enforces the subscription limits)
+export async function createWebhookSubscription(
+	env: Env,
+	url: string,
+	filters: WebhookFilters,
+): Promise<{ subscription?: WebhookSubscription; error?: string }> {
+	return (await getRegistryState(env).addWebhook(url, filters)) as {
+		subscription?: WebhookSubscription;
+		error?: string;
+	};
 }
 
-// Get announced daemons from KV
-export async function getAnnouncedFromKV(kv: KVNamespace): Promise<DaemonEntry[]> {
-	try {
-		const announced = await kv.get<DaemonEntry[]>(KV_ANNOUNCED_KEY, "json");
-		return announced || [];
-	} catch {
-		return [];
+export async function getWebhookSubscription(
+	env: Env,
+	id: string,
+): Promise<WebhookSubscription | null> {
+	return (await getRegistryState(env).getWebhook(
+		id,
+	)) as WebhookSubscription | null;
+}
+
+// Remove a webhook and any deliveries still queued for it
+export async function deleteWebhookSubscription(
+	env: Env,
+	id: string,
+): Promise<void> {
+	await getRegistryState(env).removeWebhook(id);
+}
+
+// The proven ownership challenge for a daemon ID (the one whose secret authorizes owner actions)
+export async function getProvenChallenge(
+	env: Env,
+	id: string,
+): Promise<OwnershipChallenge | null> {
+	return (await getRegistryState(env).getProvenChallenge(
+		id,
+	)) as OwnershipChallenge | null;
+}
+
+// Promote a challenge whose token was found published; it replaces any earlier proven one
+export async function saveProvenChallenge(
+	env: Env,
+	challenge: OwnershipChallenge,
+): Promise<void> {
+	await getRegistryState(env).proveChallenge(challenge);
+}
+
+// Store a newly issued pending challenge (RegistryState drops it once it expires)
+export async function savePendingChallenge(
+	env: Env,
+	challenge: OwnershipChallenge,
+): Promise<void> {
+	await getRegistryState(env).addPendingChallenge(challenge);
+}
+
+// The pending challenge with this token, if it was issued for the daemon and hasn't expired
+export async function getPendingChallenge(
+	env: Env,
+	id: string,
+	token: string,
+): Promise<OwnershipChallenge | null> {
+	return (await getRegistryState(env).getPendingChallenge(
+		id,
+		token,
+	)) as OwnershipChallenge | null;
+}
+
+// Every unexpired pending challenge for a daemon ID (one per caller of announce or verify)
+export async function listPendingChallenges(
+	env: Env,
+	id: string,
+): Promise<OwnershipChallenge[]> {
+	return (await getRegistryState(env).listPendingChallenges(
+		id,
+	)) as OwnershipChallenge[];
+}
+
+// Drop the proven and every pending challenge for a daemon ID
+export async function deleteOwnershipChallenges(
+	env: Env,
+	id: string,
+): Promise<void> {
+	await getRegistryState(env).deleteChallenges(id);
+}
+
+// Read challenges written to KV before RegistryState held them: proven ones at ownership:<id>
+// (where unproven challenges also sat before pending ones got their own keys), pending ones
+// at ownership_pending:<id>:<token>
+export async function loadLegacyChallengesFromKV(
+	kv: KVNamespace,
+): Promise<{ proven: OwnershipChallenge[]; pending: OwnershipChallenge[] }> {
+	const proven: OwnershipChallenge[] = [];
+	const pending: OwnershipChallenge[] = [];
+	for (const prefix of [KV_OWNERSHIP_PREFIX, KV_PENDING_OWNERSHIP_PREFIX]) {
+		let cursor: string | undefined;
+		do {
+			const page = await kv.list({ prefix, cursor });
+			for (const key of page.keys) {
+				const challenge = await kv.get<OwnershipChallenge>(key.name, "json");
+				if (!challenge) continue;
+				if (challenge.proven_at) proven.push(challenge);
+				else if (Date.parse(challenge.expires_at) >= Date.now())
+					pending.push(challenge);
+			}
+			cursor = page.list_complete ? undefined : page.cursor;
+		} while (cursor);
 	}
+	return { proven, pending };
 }
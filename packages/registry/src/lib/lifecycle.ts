@@ -0,0 +1,121 @@
+import type { ActivityEvent, DaemonEntry, Env } from "../types";
+
+// Lifecycle defaults (overridable with the STALE_AFTER_DAYS, ARCHIVE_AFTER_DAYS and MAX_BACKOFF_HOURS vars)
+const DEFAULT_STALE_AFTER_DAYS = 7;
+const DEFAULT_ARCHIVE_AFTER_DAYS = 30;
+const DEFAULT_MAX_BACKOFF_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Checks run on the daemon's jitter minute, so a due time a few minutes out still counts as due
+const DUE_TOLERANCE_MS = 5 * 60 * 1000;
+
+export interface LifecyclePolicy {
+	staleAfterMs: number;
+	archiveAfterMs: number;
+	maxBackoffMs: number;
+}
+
+export type LifecycleTransition = "archived" | "revived";
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+	const parsed = value ? Number(value) : Number.NaN;
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+export function getLifecyclePolicy(env?: Env): LifecyclePolicy {
+	return {
+		staleAfterMs:
+			positiveNumber(env?.STALE_AFTER_DAYS, DEFAULT_STALE_AFTER_DAYS) * DAY_MS,
+		archiveAfterMs:
+			positiveNumber(env?.ARCHIVE_AFTER_DAYS, DEFAULT_ARCHIVE_AFTER_DAYS) *
+			DAY_MS,
+		maxBackoffMs:
+			positiveNumber(env?.MAX_BACKOFF_HOURS, DEFAULT_MAX_BACKOFF_HOURS) *
+			HOUR_MS,
+	};
+}
+
+// Whether a backed-off daemon is due for its next probe
+export function isCheckDue(entry: DaemonEntry, now = Date.now()): boolean {
+	if (!entry.next_check_at) return true;
+	return Date.parse(entry.next_check_at) <= now + DUE_TOLERANCE_MS;
+}
+
+/**
+ * Fold a health result into the daemon's offline lifecycle.
+ * Each consecutive offline result doubles the probe interval (1h, 2h, 4h, ... up to the cap);
+ * daemons offline past the stale period are flagged stale, and past the archive period archived.
+ * Any successful probe resets the backoff and revives an archived daemon.
+ */
+export function applyLifecycle(
+	entry: DaemonEntry,
+	update: Partial<DaemonEntry>,
+	policy: LifecyclePolicy,
+	now = Date.now(),
+): { update: Partial<DaemonEntry>; transition?: LifecycleTransition } {
+	if (update.status !== "offline") {
+		const revived = !!entry.archived_at;
+		return {
+			update: {
+				...update,
+				consecutive_failures: 0,
+				offline_since: undefined,
+				next_check_at: undefined,
+				stale: false,
+				archived_at: undefined,
+			},
+			transition: revived ? "revived" : undefined,
+		};
+	}
+
+	const failures = (entry.consecutive_failures || 0) + 1;
+	const offlineSince =
+		entry.offline_since || update.last_checked || new Date(now).toISOString();
+	const offlineFor = now - Date.parse(offlineSince);
+	const backoff = Math.min(HOUR_MS * 2 ** (failures - 1), policy.maxBackoffMs);
+	const archive = offlineFor >= policy.archiveAfterMs;
+
+	return {
+		update: {
+			...update,
+			consecutive_failures: failures,
+			offline_since: offlineSince,
+			next_check_at: new Date(now + backoff).toISOString(),
+			stale: offlineFor >= policy.staleAfterMs,
+			archived_at: archive
+				? entry.archived_at || new Date(now).toISOString()
+				: undefined,
+		},
+		transition: archive && !entry.archived_at ? "archived" : undefined,
+	};
+}
+
+// Activity event for an archive/revive transition
+export function lifecycleEvent(
+	entry: DaemonEntry,
+	transition: LifecycleTransition,
+	update: Partial<DaemonEntry>,
+): Omit<ActivityEvent, "id" | "timestamp"> {
+	if (transition === "archived") {
+		return {
+			type: "daemon_archived",
+			daemon_id: entry.id,
+			daemon_url: entry.url,
+			daemon_owner: entry.owner,
+			details: { id: entry.id, offline_since: update.offline_since },
+		};
+	}
+	return {
+		type: "daemon_revived",
+		daemon_id: entry.id,
+		daemon_url: entry.url,
+		daemon_owner: entry.owner,
+		details: {
+			id: entry.id,
+			archived_at: entry.archived_at,
+			status: update.status,
+		},
+	};
+}
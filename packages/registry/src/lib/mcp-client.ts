@@ -0,0 +1,534 @@
+import type { McpServerInfo, McpTransport, ProbeReport } from "../types";
+import { probe, PROBE_TIMEOUT_MS } from "./probe";
+
+// Client identity and protocol version offered in initialize
+const LATEST_PROTOCOL_VERSION = "2025-06-18";
+const CLIENT_INFO = { name: "daemon-registry", version: "1.0.0" };
+
+// Upper bound on list pages fetched per capability
+const MAX_LIST_PAGES = 5;
+
+interface JsonRpcMessage {
+	jsonrpc: "2.0";
+	id?: number | string;
+	method?: string;
+	result?: Record<string, unknown>;
+	error?: { code: number; message: string };
+}
+
+interface InitializeResult {
+	protocolVersion?: string;
+	capabilities?: { tools?: object; resources?: object; prompts?: object };
+	serverInfo?: McpServerInfo;
+}
+
+// An open connection to an MCP server, independent of transport
+interface McpSession {
+	request(
+		method: string,
+		params?: Record<string, unknown>,
+	): Promise<JsonRpcMessage | null>;
+	notify(method: string): Promise<void>;
+	close(): Promise<void>;
+}
+
+// Outcome of the transport-specific initialize step
+interface OpenResult {
+	report: ProbeReport;
+	session?: McpSession;
+	init?: JsonRpcMessage | null;
+}
+
+export interface McpProbeResult {
+	report: ProbeReport; // check "mcp"; ok once a transport completed
+	transport?: McpTransport;
+	protocol_version?: string;
+	server_info?: McpServerInfo;
+	tools: { name: string; description: string }[];
+	resources: { uri: string; name?: string; description?: string }[];
+	prompts: { name: string; description?: string }[];
+}
+
+interface SseEvent {
+	event: string;
+	data: string;
+}
+
+function errorMessage(e: unknown): string {
+	return e instanceof Error ? e.message : "Unknown error";
+}
+
+function initializeParams(): Record<string, unknown> {
+	return {
+		protocolVersion: LATEST_PROTOCOL_VERSION,
+		capabilities: {},
+		clientInfo: CLIENT_INFO,
+	};
+}
+
+// Incremental text/event-stream parser over a response body
+function createSseReader(body: ReadableStream<Uint8Array>): {
+	next(): Promise<SseEvent | null>;
+	cancel(): Promise<void>;
+} {
+	const reader = body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+
+	function parseEvent(raw: string): SseEvent | null {
+		let event = "message";
+		const data: string[] = [];
+		for (const line of raw.split(/\r?\n/)) {
+			if (line.startsWith(":")) continue;
+			const colon = line.indexOf(":");
+			const field = colon >= 0 ? line.slice(0, colon) : line;
+			const value = colon >= 0 ? line.slice(colon + 1).replace(/^ /, "") : "";
+			if (field === "event") event = value;
+			if (field === "data") data.push(value);
+		}
+		return data.length > 0 ? { event, data: data.join("\n") } : null;
+	}
+
+	return {
+		async next() {
+			for (;;) {
+				const boundary = buffer.match(/\r?\n\r?\n/);
+				if (boundary?.index !== undefined) {
+					const raw = buffer.slice(0, boundary.index);
+					buffer = buffer.slice(boundary.index + boundary[0].length);
+					const event = parseEvent(raw);
+					if (event) return event;
+					continue;
+				}
+				const { value, done } = await reader.read();
+				if (done) return null;
+				buffer += decoder.decode(value, { stream: true });
+			}
+		},
+		async cancel() {
+			await reader.cancel().catch(() => {});
+		},
+	};
+}
+
+function parseMessage(data: string): JsonRpcMessage[] {
+	try {
+		const parsed = JSON.parse(data) as JsonRpcMessage | JsonRpcMessage[];
+		return Array.isArray(parsed) ? parsed : [parsed];
+	} catch {
+		return [];
+	}
+}
+
+// Read SSE events until the response to a request arrives
+async function awaitSseResponse(
+	reader: ReturnType<typeof createSseReader>,
+	id: number,
+): Promise<JsonRpcMessage | null> {
+	for (let event = await reader.next(); event; event = await reader.next()) {
+		if (event.event !== "message") continue;
+		const match = parseMessage(event.data).find(
+			(m) => m.id === id && (m.result || m.error),
+		);
+		if (match) return match;
+	}
+	return null;
+}
+
+// Streamable HTTP answers a POST with either JSON or an SSE stream carrying the response
+async function readHttpResponse(
+	response: Response,
+	id: number,
+): Promise<JsonRpcMessage | null> {
+	const contentType = response.headers.get("Content-Type") || "";
+	if (contentType.includes("text/event-stream") && response.body) {
+		const reader = createSseReader(response.body);
+		try {
+			return await awaitSseResponse(reader, id);
+		} finally {
+			await reader.cancel();
+		}
+	}
+	return parseMessage(await response.text()).find((m) => m.id === id) || null;
+}
+
+// Streamable HTTP (and plain JSON-RPC): POST initialize to the endpoint itself
+async function openStreamableHttp(url: string): Promise<OpenResult> {
+	const baseHeaders = {
+		"Content-Type": "application/json",
+		Accept: "application/json, text/event-stream",
+	};
+	const { report, response } = await probe("mcp", url, {
+		method: "POST",
+		headers: baseHeaders,
+		body: JSON.stringify({
+			jsonrpc: "2.0",
+			id: 1,
+			method: "initialize",
+			params: initializeParams(),
+		}),
+	});
+	if (!response || !report.ok) {
+		await response?.body?.cancel();
+		return { report };
+	}
+
+	const init = await readHttpResponse(response, 1);
+	const endpoint = report.final_url;
+	const headers: Record<string, string> = {
+		...baseHeaders,
+		"User-Agent": "DaemonRegistry/1.0",
+	};
+	const sessionId = response.headers.get("Mcp-Session-Id");
+	if (sessionId) headers["Mcp-Session-Id"] = sessionId;
+	const negotiated = (init?.result as InitializeResult | undefined)
+		?.protocolVersion;
+	if (negotiated) headers["MCP-Protocol-Version"] = negotiated;
+
+	let nextId = 2;
+	const session: McpSession = {
+		async request(method, params) {
+			const id = nextId++;
+			const res = await fetch(endpoint, {
+				method: "POST",
+				headers,
+				body: JSON.stringify({ jsonrpc: "2.0", id, method, params }),
+				signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+			});
+			if (!res.ok) {
+				await res.body?.cancel();
+				return null;
+			}
+			return readHttpResponse(res, id);
+		},
+		async notify(method) {
+			const res = await fetch(endpoint, {
+				method: "POST",
+				headers,
+				body: JSON.stringify({ jsonrpc: "2.0", method }),
+				signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+			});
+			await res.body?.cancel();
+		},
+		async close() {
+			// Let the server drop the session early; failures don't matter
+			if (!sessionId) return;
+			await fetch(endpoint, {
+				method: "DELETE",
+				headers,
+				signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+			})
+				.then((res) => res.body?.cancel())
+				.catch(() => {});
+		},
+	};
+
+	return { report, session, init };
+}
+
+// Legacy HTTP+SSE: GET opens the stream, whose first "endpoint" event names the URL to POST to
+async function openLegacySse(url: string): Promise<OpenResult> {
+	const { report, response } = await probe("mcp", url, {
+		method: "GET",
+		headers: { Accept: "text/event-stream" },
+	});
+	if (!response || !report.ok) {
+		await response?.body?.cancel();
+		return { report };
+	}
+	if (!report.content_type?.includes("text/event-stream") || !response.body) {
+		await response.body?.cancel();
+		return {
+			report: {
+				...report,
+				ok: false,
+				error: `Not an SSE stream (${report.content_type || "no content-type"})`,
+			},
+		};
+	}
+
+	const reader = createSseReader(response.body);
+	let endpoint: string | undefined;
+	for (let event = await reader.next(); event; event = await reader.next()) {
+		if (event.event === "endpoint") {
+			endpoint = new URL(event.data.trim(), report.final_url).toString();
+			break;
+		}
+	}
+	if (!endpoint) {
+		await reader.cancel();
+		return {
+			report: {
+				...report,
+				ok: false,
+				error: "SSE stream sent no endpoint event",
+			},
+		};
+	}
+	const messageUrl = endpoint;
+
+	const post = async (message: Record<string, unknown>): Promise<boolean> => {
+		const res = await fetch(messageUrl, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"User-Agent": "DaemonRegistry/1.0",
+			},
+			body: JSON.stringify(message),
+			signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+		});
+		await res.body?.cancel();
+		return res.ok;
+	};
+
+	let nextId = 1;
+	const session: McpSession = {
+		async request(method, params) {
+			const id = nextId++;
+			if (!(await post({ jsonrpc: "2.0", id, method, params }))) return null;
+			return awaitSseResponse(reader, id);
+		},
+		async notify(method) {
+			await post({ jsonrpc: "2.0", method });
+		},
+		async close() {
+			await reader.cancel();
+		},
+	};
+
+	const init = await session.request("initialize", initializeParams());
+	return { report, session, init };
+}
+
+// Fetch every page of a list method (tools/list, resources/list, prompts/list)
+async function listAll<T>(
+	session: McpSession,
+	method: string,
+	key: string,
+): Promise<T[]> {
+	const items: T[] = [];
+	let cursor: string | undefined;
+	for (let page = 0; page < MAX_LIST_PAGES; page++) {
+		const response = await session.request(
+			method,
+			cursor ? { cursor } : undefined,
+		);
+		const result = response?.result;
+		if (!result) break;
+		items.push(...((result[key] as T[] | undefined) || []));
+		cursor =
+			typeof result.nextCursor === "string" ? result.nextCursor : undefined;
+		if (!cursor) break;
+	}
+	return items;
+}
+
+// Complete the handshake on an initialized session and list what the server offers
+async function describeServer(
+	opened: Required<OpenResult>,
+	transport: McpTransport,
+	started: number,
+): Promise<McpProbeResult> {
+	const { session, report } = opened;
+	const init = opened.init?.result as InitializeResult;
+	const capabilities = init.capabilities || {};
+
+	try {
+		await session.notify("notifications/initialized");
+		const [tools, resources, prompts] = [
+			capabilities.tools
+				? await listAll<{ name: string; description: string }>(
+						session,
+						"tools/list",
+						"tools",
+					)
+				: [],
+			capabilities.resources
+				? await listAll<{ uri: string; name?: string; description?: string }>(
+						session,
+						"resources/list",
+						"resources",
+					)
+				: [],
+			capabilities.prompts
+				? await listAll<{ name: string; description?: string }>(
+						session,
+						"prompts/list",
+						"prompts",
+					)
+				: [],
+		];
+
+		return {
+			report: {
+				...report,
+				ok: true,
+				error: undefined,
+				latency_ms: Date.now() - started,
+			},
+			transport,
+			protocol_version: init.protocolVersion,
+			server_info: init.serverInfo,
+			tools: tools.map((t) => ({ name: t.name, description: t.description })),
+			resources: resources.map((r) => ({
+				uri: r.uri,
+				name: r.name,
+				description: r.description,
+			})),
+			prompts: prompts.map((p) => ({
+				name: p.name,
+				description: p.description,
+			})),
+		};
+	} finally {
+		await session.close();
+	}
+}
+
+// Candidate URLs for the legacy SSE transport: the URL itself, then <url>/sse
+function sseCandidates(url: string): string[] {
+	const trimmed = url.replace(/\/+$/, "");
+	return trimmed.endsWith("/sse") ? [url] : [url, `${trimmed}/sse`];
+}
+
+/**
+ * Probe an MCP server the way a spec-compliant client connects:
+ * initialize, notifications/initialized, then tools/resources/prompts lists.
+ * Tries Streamable HTTP first, then legacy HTTP+SSE. Servers that answer JSON-RPC
+ * but reject initialize are retried with a bare tools/list (transport "json_rpc").
+ */
+export async function probeMcpServer(url: string): Promise<McpProbeResult> {
+	const started = Date.now();
+	const empty = { tools: [], resources: [], prompts: [] };
+	const errors: string[] = [];
+	let firstReport: ProbeReport | undefined;
+
+	try {
+		const http = await openStreamableHttp(url);
+		firstReport = http.report;
+		if (http.session && http.init?.result) {
+			return await describeServer(
+				http as Required<OpenResult>,
+				"streamable_http",
+				started,
+			);
+		}
+
+		if (http.session && http.init?.error) {
+			// Plain JSON-RPC daemon without the MCP handshake
+			const list = await http.session.request("tools/list");
+			const tools = list?.result?.tools as
+				| { name: string; description: string }[]
+				| undefined;
+			if (tools) {
+				return {
+					...empty,
+					report: {
+						...http.report,
+						ok: true,
+						latency_ms: Date.now() - started,
+					},
+					transport: "json_rpc",
+					tools: tools.map((t) => ({
+						name: t.name,
+						description: t.description,
+					})),
+				};
+			}
+			errors.push(`initialize rejected: ${http.init.error.message}`);
+		} else {
+			errors.push(http.report.error || "No initialize response");
+		}
+	} catch (e) {
+		errors.push(errorMessage(e));
+	}
+
+	for (const candidate of sseCandidates(url)) {
+		try {
+			const sse = await openLegacySse(candidate);
+			if (sse.session && sse.init?.result) {
+				return await describeServer(
+					sse as Required<OpenResult>,
+					"sse",
+					started,
+				);
+			}
+			await sse.session?.close();
+			errors.push(
+				`SSE ${candidate}: ${sse.report.error || "no initialize response"}`,
+			);
+		} catch (e) {
+			errors.push(`SSE ${candidate}: ${errorMessage(e)}`);
+		}
+	}
+
+	const report: ProbeReport = firstReport || {
+		check: "mcp",
+		url,
+		ok: false,
+		redirects: [],
+		final_url: url,
+	};
+	return {
+		...empty,
+		report: {
+			...report,
+			ok: false,
+			error: errors.join("; "),
+			latency_ms: Date.now() - started,
+		},
+	};
+}
+
+/**
+ * Call one tool over the transport a health check detected and return the text of its result.
+ * Plain JSON-RPC daemons reject initialize, so the call goes ahead without the handshake.
+ */
+export async function callMcpTool(
+	url: string,
+	transport: McpTransport,
+	name: string,
+	args: Record<string, unknown> = {},
+): Promise<{ text?: string; error?: string }> {
+	let opened: OpenResult | undefined;
+	try {
+		if (transport === "sse") {
+			for (const candidate of sseCandidates(url)) {
+				opened = await openLegacySse(candidate);
+				if (opened.session && opened.init?.result) break;
+				await opened.session?.close();
+				opened = undefined;
+			}
+		} else {
+			opened = await openStreamableHttp(url);
+		}
+		if (!opened?.session) {
+			return { error: opened?.report.error || "Could not connect" };
+		}
+
+		if (opened.init?.result)
+			await opened.session.notify("notifications/initialized");
+		const response = await opened.session.request("tools/call", {
+			name,
+			arguments: args,
+		});
+		if (!response) return { error: "No response" };
+		if (response.error) return { error: response.error.message };
+
+		const content =
+			(response.result?.content as
+				| { type: string; text?: string }[]
+				| undefined) || [];
+		const text = content
+			.filter((c) => c.type === "text")
+			.map((c) => c.text || "")
+			.join("\n");
+		return response.result?.isError
+			? { error: text || "Tool call failed" }
+			: { text };
+	} catch (e) {
+		return { error: errorMessage(e) };
+	} finally {
+		await opened?.session?.close();
+	}
+}
@@ -0,0 +1,225 @@
+import type { OwnershipChallenge, ProofMethod } from "../types";
+import { getDaemonMdUrl, parseDaemonMd } from "./daemon-md";
+import { sha256Hex } from "./hash";
+
+// Ownership proof config
+const OWNERSHIP_CHALLENGE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days to publish the proof
+const PROOF_TOKEN_PREFIX = "daemon-registry-proof=";
+const DNS_PROOF_LABEL = "_daemon-registry";
+const WELL_KNOWN_PROOF_PATH = "/.well-known/daemon-registry-proof";
+const DAEMON_MD_PROOF_SECTION = "REGISTRY_PROOF";
+const DOH_ENDPOINT = "https://cloudflare-dns.com/dns-query";
+
+// Derive the public proof token from the owner's secret
+export async function deriveProofToken(secret: string): Promise<string> {
+	return `${PROOF_TOKEN_PREFIX}${await sha256Hex(secret)}`;
+}
+
+// Create a new ownership challenge for a daemon.
+// The secret goes back to the caller only; the registry keeps just the derived token,
+// so publishing the token proves domain control and presenting the secret proves authorship.
+export async function createOwnershipChallenge(
+	id: string,
+	url: string,
+): Promise<{ challenge: OwnershipChallenge; secret: string }> {
+	const bytes = crypto.getRandomValues(new Uint8Array(32));
+	const secret = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(
+		"",
+	);
+	const now = Date.now();
+	return {
+		challenge: {
+			id,
+			url,
+			token: await deriveProofToken(secret),
+			issued_at: new Date(now).toISOString(),
+			expires_at: new Date(now + OWNERSHIP_CHALLENGE_TTL_MS).toISOString(),
+		},
+		secret,
+	};
+}
+
+// Check an owner secret against a challenge's token
+export async function matchesOwnerSecret(
+	challenge: OwnershipChallenge,
+	secret: string,
+): Promise<boolean> {
+	return (await deriveProofToken(secret)) === challenge.token;
+}
+
+// An unproven announce holds its URL/ID for one challenge lifetime from announced_at.
+// The window is fixed, so issuing further challenges never extends it.
+export function isClaimWindowOver(
+	announcedAt: string,
+	now = Date.now(),
+): boolean {
+	return Date.parse(announcedAt) + OWNERSHIP_CHALLENGE_TTL_MS < now;
+}
+
+// Tell the owner where they can publish the token
+export function getProofInstructions(
+	challenge: OwnershipChallenge,
+): Record<ProofMethod, string> {
+	const { hostname, origin } = new URL(challenge.url);
+	return {
+		dns: `Add a TXT record at ${DNS_PROOF_LABEL}.${hostname} with the value "${challenge.token}"`,
+		well_known: `Serve ${origin}${WELL_KNOWN_PROOF_PATH} containing "${challenge.token}"`,
+		daemon_md: `Add a [${DAEMON_MD_PROOF_SECTION}] section to ${getDaemonMdUrl(challenge.url)} containing "${challenge.token}"`,
+	};
+}
+
+// Look for any of the tokens in a DNS TXT record (via DNS-over-HTTPS)
+async function checkDnsProof(
+	hostname: string,
+	tokens: string[],
+): Promise<{ found?: string; error?: string }> {
+	const name = `${DNS_PROOF_LABEL}.${hostname}`;
+
+	try {
+		const response = await fetch(
+			`${DOH_ENDPOINT}?name=${encodeURIComponent(name)}&type=TXT`,
+			{
+				headers: {
+					Accept: "application/dns-json",
+					"User-Agent": "DaemonRegistry/1.0",
+				},
+				signal: AbortSignal.timeout(10000),
+			},
+		);
+
+		if (!response.ok) {
+			return { error: `DNS lookup failed: HTTP ${response.status}` };
+		}
+
+		const data = (await response.json()) as {
+			Answer?: { type: number; data: string }[];
+		};
+		// TXT data comes back quoted, long records split into several quoted strings
+		const records = (data.Answer || [])
+			.filter((a) => a.type === 16)
+			.map((a) => a.data.replace(/"\s*"/g, "").replace(/^"|"$/g, ""));
+
+		const found = tokens.find((token) =>
+			records.some((r) => r.trim() === token),
+		);
+		if (found) {
+			return { found };
+		}
+		return { error: `No matching TXT record at ${name}` };
+	} catch (e) {
+		const error = e instanceof Error ? e.message : "Unknown error";
+		return { error: `DNS lookup failed: ${error}` };
+	}
+}
+
+// Look for any of the tokens in /.well-known/daemon-registry-proof
+async function checkWellKnownProof(
+	origin: string,
+	tokens: string[],
+): Promise<{ found?: string; error?: string }> {
+	const proofUrl = `${origin}${WELL_KNOWN_PROOF_PATH}`;
+
+	try {
+		const response = await fetch(proofUrl, {
+			headers: { "User-Agent": "DaemonRegistry/1.0" },
+			signal: AbortSignal.timeout(10000),
+		});
+
+		if (!response.ok) {
+			return { error: `${proofUrl} returned HTTP ${response.status}` };
+		}
+
+		const words = (await response.text()).split(/\s+/);
+		const found = tokens.find((token) => words.includes(token));
+		if (found) {
+			return { found };
+		}
+		return { error: `${proofUrl} does not contain the proof token` };
+	} catch (e) {
+		const error = e instanceof Error ? e.message : "Unknown error";
+		return { error: `${proofUrl}: ${error}` };
+	}
+}
+
+// Look for any of the tokens in the [REGISTRY_PROOF] section of daemon.md
+async function checkDaemonMdProof(
+	daemonUrl: string,
+	tokens: string[],
+): Promise<{ found?: string; error?: string }> {
+	const daemonMdUrl = getDaemonMdUrl(daemonUrl);
+
+	try {
+		const response = await fetch(daemonMdUrl, {
+			headers: { "User-Agent": "DaemonRegistry/1.0" },
+			signal: AbortSignal.timeout(10000),
+		});
+
+		if (!response.ok) {
+			return { error: `${daemonMdUrl} returned HTTP ${response.status}` };
+		}
+
+		const sections = parseDaemonMd(await response.text());
+		const words = sections[DAEMON_MD_PROOF_SECTION]?.split(/\s+/) || [];
+		const found = tokens.find((token) => words.includes(token));
+		if (found) {
+			return { found };
+		}
+		return {
+			error: `No [${DAEMON_MD_PROOF_SECTION}] section with the proof token in daemon.md`,
+		};
+	} catch (e) {
+		const error = e instanceof Error ? e.message : "Unknown error";
+		return { error: `${daemonMdUrl}: ${error}` };
+	}
+}
+
+/**
+ * Check all proof locations for any of the tokens, fetching each location once.
+ * The first location holding a token wins (dns > well_known > daemon_md); token is the one found.
+ */
+export async function checkOwnershipProof(
+	url: string,
+	tokens: string[],
+): Promise<{
+	proven: boolean;
+	method?: ProofMethod;
+	token?: string;
+	errors: string[];
+}> {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return { proven: false, errors: ["Invalid URL format"] };
+	}
+
+	const [dns, wellKnown, daemonMd] = await Promise.all([
+		checkDnsProof(parsed.hostname, tokens),
+		checkWellKnownProof(parsed.origin, tokens),
+		checkDaemonMdProof(url, tokens),
+	]);
+
+	if (dns.found)
+		return { proven: true, method: "dns", token: dns.found, errors: [] };
+	if (wellKnown.found)
+		return {
+			proven: true,
+			method: "well_known",
+			token: wellKnown.found,
+			errors: [],
+		};
+	if (daemonMd.found)
+		return {
+			proven: true,
+			method: "daemon_md",
+			token: daemonMd.found,
+			errors: [],
+		};
+
+	return {
+		proven: false,
+		errors: [dns.error, wellKnown.error, daemonMd.error].filter(
+			(e): e is string => !!e,
+		),
+	};
+}
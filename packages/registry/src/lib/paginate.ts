@@ -0,0 +1,219 @@
+import { z } from "zod";
+
+import type { DaemonEntry, PageOptions, SortField, SortOrder } from "../types";
+
+// Pagination config
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 200;
+
+export const SORT_FIELDS = [
+	"announced_at",
+	"last_checked",
+	"owner",
+	"id",
+] as const satisfies readonly SortField[];
+export const SEARCH_SORT_FIELDS = [
+	...SORT_FIELDS,
+	"relevance",
+	"trust_depth",
+] as const satisfies readonly SortField[];
+
+// Paging arguments, shared by the JSON-RPC and SSE transports
+export const pageShape = {
+	limit: z
+		.number()
+		.int()
+		.min(1)
+		.max(MAX_PAGE_LIMIT)
+		.optional()
+		.describe(`Max daemons per page (default ${DEFAULT_PAGE_LIMIT})`),
+	cursor: z
+		.string()
+		.optional()
+		.describe("next_cursor from a previous response"),
+	sort: z.enum(SORT_FIELDS).optional().describe("Sort field (default id)"),
+	order: z
+		.enum(["asc", "desc"])
+		.optional()
+		.describe("Sort order (default asc)"),
+};
+
+// Paging arguments for lists with a fixed order (limit and cursor only)
+export const limitShape = {
+	limit: pageShape.limit,
+	cursor: pageShape.cursor,
+};
+
+export const searchPageShape = {
+	...pageShape,
+	sort: z
+		.enum(SEARCH_SORT_FIELDS)
+		.optional()
+		.describe("Sort field (default relevance with a query)"),
+};
+
+// Validate paging arguments (other arguments are ignored), returning a readable error instead of throwing
+export function parsePageOptions(
+	args: unknown,
+	shape:
+		| typeof pageShape
+		| typeof searchPageShape
+		| typeof limitShape = pageShape,
+): { page?: PageOptions; error?: string } {
+	const result = z.object(shape).safeParse(args ?? {});
+	if (!result.success) {
+		return {
+			error: result.error.issues
+				.map((issue) => `${issue.path.join(".") || "page"}: ${issue.message}`)
+				.join("; "),
+		};
+	}
+	return { page: result.data };
+}
+
+// Cursor payload: position of the last returned entry plus the ordering it was taken from
+interface CursorPayload {
+	sort: SortField;
+	order: SortOrder;
+	value: string;
+	id: string;
+}
+
+function sortValue(
+	entry: DaemonEntry & { score?: number },
+	sort: SortField,
+): string {
+	// Zero-padded so scores compare correctly as strings
+	if (sort === "relevance")
+		return (entry.score || 0).toFixed(2).padStart(12, "0");
+	// Unreachable daemons sort after every depth
+	if (sort === "trust_depth")
+		return (entry.trust_depth ?? 999999).toString().padStart(6, "0");
+	const value = entry[sort];
+	return sort === "owner" ? (value || "").toLowerCase() : value || "";
+}
+
+// Base64url-encoded JSON (via UTF-8, since owner names aren't always Latin-1)
+function encodeCursorJson(payload: unknown): string {
+	const bytes = new TextEncoder().encode(JSON.stringify(payload));
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+}
+
+function decodeCursorJson(cursor: string): unknown {
+	try {
+		const binary = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+		return JSON.parse(
+			new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0))),
+		);
+	} catch {
+		throw new Error("Invalid cursor");
+	}
+}
+
+function decodeCursor(cursor: string): CursorPayload {
+	const payload = decodeCursorJson(cursor) as CursorPayload | null;
+	if (typeof payload?.value !== "string" || typeof payload.id !== "string") {
+		throw new Error("Invalid cursor");
+	}
+	return payload;
+}
+
+function clampLimit(limit?: number): number {
+	return Math.min(
+		Math.max(1, Math.floor(limit || DEFAULT_PAGE_LIMIT)),
+		MAX_PAGE_LIMIT,
+	);
+}
+
+// Compare two entries by (sort value, id) - id breaks ties so the order is total
+function compareEntries(
+	a: { value: string; id: string },
+	b: { value: string; id: string },
+	order: SortOrder,
+): number {
+	const cmp =
+		a.value === b.value
+			? a.id.localeCompare(b.id)
+			: a.value.localeCompare(b.value);
+	return order === "desc" ? -cmp : cmp;
+}
+
+// Sort and slice entries into a page. Cursors are keyset-based, so entries added
+// or removed between requests don't shift later pages.
+export function paginateEntries<T extends DaemonEntry>(
+	entries: T[],
+	options: PageOptions = {},
+): { entries: T[]; total: number; next_cursor?: string } {
+	const sort = options.sort || "id";
+	const order = options.order || (sort === "relevance" ? "desc" : "asc");
+	const limit = clampLimit(options.limit);
+
+	const keyed = entries
+		.map((entry) => ({ entry, value: sortValue(entry, sort), id: entry.id }))
+		.sort((a, b) => compareEntries(a, b, order));
+
+	let start = 0;
+	if (options.cursor) {
+		const cursor = decodeCursor(options.cursor);
+		if (cursor.sort !== sort || cursor.order !== order) {
+			throw new Error("Cursor was created with a different sort or order");
+		}
+		start = keyed.findIndex((k) => compareEntries(k, cursor, order) > 0);
+		if (start < 0) start = keyed.length;
+	}
+
+	const page = keyed.slice(start, start + limit);
+	const last = page[page.length - 1];
+	const hasMore = start + limit < keyed.length;
+
+	return {
+		entries: page.map((k) => k.entry),
+		total: entries.length,
+		next_cursor:
+			hasMore && last
+				? encodeCursorJson({
+						sort,
+						order,
+						value: last.value,
+						id: last.id,
+					} satisfies CursorPayload)
+				: undefined,
+	};
+}
+
+/**
+ * Page through a list in the order of a string key (compared by code unit), for lists that aren't
+ * daemon entries. The cursor holds the last key returned, so removals between requests don't shift pages.
+ */
+export function paginateByKey<T>(
+	items: T[],
+	keyOf: (item: T) => string,
+	options: { limit?: number; cursor?: string } = {},
+): { items: T[]; total: number; next_cursor?: string } {
+	const limit = clampLimit(options.limit);
+	const keyed = items
+		.map((item) => ({ item, key: keyOf(item) }))
+		.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+	let start = 0;
+	if (options.cursor) {
+		const after = decodeCursorJson(options.cursor);
+		if (typeof after !== "string") throw new Error("Invalid cursor");
+		start = keyed.findIndex((k) => k.key > after);
+		if (start < 0) start = keyed.length;
+	}
+
+	const page = keyed.slice(start, start + limit);
+	const last = page[page.length - 1];
+	return {
+		items: page.map((k) => k.item),
+		total: items.length,
+		next_cursor:
+			start + limit < keyed.length && last
+				? encodeCursorJson(last.key)
+				: undefined,
+	};
+}
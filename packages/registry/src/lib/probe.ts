@@ -0,0 +1,79 @@
+import type { ProbeCheck, ProbeReport } from "../types";
+
+// Probe config
+export const PROBE_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+
+// Fetch a URL, following redirects by hand so the chain, status and timing end up in a report.
+// The response is returned for checks that need to read the body.
+export async function probe(
+	check: ProbeCheck,
+	url: string,
+	init: {
+		method: "GET" | "POST";
+		headers?: Record<string, string>;
+		body?: string;
+	},
+): Promise<{ report: ProbeReport; response?: Response }> {
+	const report: ProbeReport = {
+		check,
+		url,
+		ok: false,
+		redirects: [],
+		final_url: url,
+	};
+	const started = Date.now();
+	let current = url;
+	let method = init.method;
+	let body = init.body;
+
+	try {
+		for (let hop = 0; ; hop++) {
+			const response = await fetch(current, {
+				method,
+				headers: { "User-Agent": "DaemonRegistry/1.0", ...init.headers },
+				body,
+				redirect: "manual",
+				signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+			});
+
+			const location = response.headers.get("Location");
+			if (response.status >= 300 && response.status < 400 && location) {
+				if (hop >= MAX_REDIRECTS) {
+					report.http_status = response.status;
+					report.error = `Too many redirects (>${MAX_REDIRECTS})`;
+					break;
+				}
+				current = new URL(location, current).toString();
+				report.redirects.push(current);
+				// Same method rewrite as fetch: 303 (and 301/302 for POST) continue as GET
+				if (
+					response.status === 303 ||
+					(method === "POST" &&
+						(response.status === 301 || response.status === 302))
+				) {
+					method = "GET";
+					body = undefined;
+				}
+				continue;
+			}
+
+			report.http_status = response.status;
+			report.final_url = current;
+			report.content_type =
+				response.headers.get("Content-Type")?.split(";")[0].trim() || undefined;
+			report.ok = response.ok;
+			if (!response.ok) report.error = `HTTP ${response.status}`;
+			return {
+				report: { ...report, latency_ms: Date.now() - started },
+				response,
+			};
+		}
+	} catch (e) {
+		report.error = e instanceof Error ? e.message : "Unknown error";
+	}
+
+	report.final_url = current;
+	report.latency_ms = Date.now() - started;
+	return { report };
+}
@@ -0,0 +1,94 @@
+import type { DaemonEntry } from "../types";
+
+// How a lookup matched an entry
+export type LookupMatch = "id" | "url" | "mcp_url";
+
+/**
+ * Normalize a URL for comparison.
+ * Lowercases scheme and host, drops default ports, fragments and trailing slashes,
+ * and adds a scheme when missing.
+ * Example: HTTPS://Daemon.Example.com:443/mcp/ -> https://daemon.example.com/mcp
+ */
+export function normalizeUrl(url: string): string {
+	const trimmed = url.trim();
+	const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+		? trimmed
+		: `https://${trimmed}`;
+	try {
+		const parsed = new URL(withScheme);
+		parsed.hash = "";
+		const path = parsed.pathname.replace(/\/+$/, "");
+		return `${parsed.protocol}//${parsed.host}${path}${parsed.search}`;
+	} catch {
+		return trimmed.toLowerCase().replace(/\/+$/, "");
+	}
+}
+
+/**
+ * Derive a namespace-based ID from a daemon URL.
+ * Format: <reversed-domain>.<identifier>
+ * Example: https://daemon.saltedkeys.io/ -> io.saltedkeys.daemon
+ *          https://daemon.danielmiessler.com/ -> com.danielmiessler.daemon
+ * Used for announces without an ID and to backfill pre-v1.1.0 entries on import.
+ */
+export function deriveIdFromUrl(url: string, owner?: string): string {
+	try {
+		const parsed = new URL(url);
+		const host = parsed.hostname;
+
+		// Reverse the domain parts
+		const parts = host.split(".").reverse();
+
+		// Try to extract a meaningful identifier from the path or use owner name
+		const pathPart = parsed.pathname.replace(/^\/|\/$/g, "").split("/")[0];
+		let identifier = pathPart || "daemon";
+
+		// If owner is provided, use a sanitized version as identifier
+		if (owner) {
+			identifier =
+				owner
+					.toLowerCase()
+					.replace(/[^a-z0-9]/g, "")
+					.substring(0, 20) || identifier;
+		}
+
+		return [...parts, identifier].join(".");
+	} catch {
+		// Fallback: use a hash of the URL
+		return `unknown.${url.replace(/[^a-z0-9]/gi, "").substring(0, 32)}`;
+	}
+}
+
+// Namespace IDs compare case-insensitively
+export function sameDaemonId(a: string, b: string): boolean {
+	return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export function sameDaemonUrl(a: string, b: string): boolean {
+	return normalizeUrl(a) === normalizeUrl(b);
+}
+
+// Find an entry by namespace ID, or by daemon URL / MCP URL (normalized)
+export function findEntry(
+	entries: DaemonEntry[],
+	target: { id?: string; url?: string },
+): { entry: DaemonEntry; matched_by: LookupMatch } | null {
+	if (target.id) {
+		const id = target.id;
+		const entry = entries.find((e) => sameDaemonId(e.id, id));
+		return entry ? { entry, matched_by: "id" } : null;
+	}
+
+	if (target.url) {
+		const url = normalizeUrl(target.url);
+		const byUrl = entries.find((e) => normalizeUrl(e.url) === url);
+		if (byUrl) return { entry: byUrl, matched_by: "url" };
+
+		const byMcpUrl = entries.find(
+			(e) => e.mcp_url && normalizeUrl(e.mcp_url) === url,
+		);
+		if (byMcpUrl) return { entry: byMcpUrl, matched_by: "mcp_url" };
+	}
+
+	return null;
+}
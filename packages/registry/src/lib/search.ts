@@ -0,0 +1,165 @@
+import type {
+	DaemonEntry,
+	ScoredDaemonEntry,
+	SearchField,
+	ContentMatch,
+} from "../types";
+
+// Field weights: identity fields rank above tags, tags above descriptive text
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+	id: 10,
+	owner: 10,
+	tags: 6,
+	focus: 4,
+	role: 3,
+	url: 1,
+};
+
+// Match strength multipliers
+const EXACT_TOKEN_BOOST = 2; // query token equals a field token
+const PARTIAL_MATCH = 1; // query token is a prefix/substring of a field token
+const FUZZY_MATCH = 0.5; // query token is within edit distance of a field token
+const PHRASE_BOOST = 1; // whole multi-word query appears verbatim in the field
+
+// Each daemon.md section matching a content query
+const CONTENT_SECTION_WEIGHT = 5;
+
+// Typo tolerance only applies to short queries, where a single typo hides everything
+const SHORT_QUERY_MAX_TOKENS = 2;
+const FUZZY_MIN_TOKEN_LENGTH = 4;
+
+function tokenize(text: string): string[] {
+	return text
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(Boolean);
+}
+
+function fieldText(entry: DaemonEntry, field: SearchField): string[] {
+	const value = entry[field];
+	if (!value) return [];
+	return Array.isArray(value) ? value : [value];
+}
+
+// Levenshtein distance, giving up once it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+
+	let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const curr = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+			rowMin = Math.min(rowMin, curr[j]);
+		}
+		if (rowMin > max) return max + 1;
+		prev = curr;
+	}
+	return prev[b.length];
+}
+
+// Best match strength of one query token against a field's tokens
+function matchToken(
+	queryToken: string,
+	fieldTokens: string[],
+	fuzzy: boolean,
+): number {
+	let best = 0;
+	for (const token of fieldTokens) {
+		if (token === queryToken) return EXACT_TOKEN_BOOST;
+		if (token.includes(queryToken)) {
+			best = Math.max(best, PARTIAL_MATCH);
+		} else if (fuzzy && queryToken.length >= FUZZY_MIN_TOKEN_LENGTH) {
+			const maxDistance = queryToken.length >= 8 ? 2 : 1;
+			if (editDistance(queryToken, token, maxDistance) <= maxDistance) {
+				best = Math.max(best, FUZZY_MATCH);
+			}
+		}
+	}
+	return best;
+}
+
+// Score one entry against a query. Every query token must match some field.
+export function scoreEntry(
+	entry: DaemonEntry,
+	query: string,
+): { score: number; matched_fields: SearchField[] } {
+	const queryTokens = tokenize(query);
+	if (queryTokens.length === 0) return { score: 0, matched_fields: [] };
+
+	const phrase = query.trim().toLowerCase();
+	const fuzzy = queryTokens.length <= SHORT_QUERY_MAX_TOKENS;
+	const matchedTokens = new Set<string>();
+	const matchedFields: SearchField[] = [];
+	let score = 0;
+
+	for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+		const texts = fieldText(entry, field);
+		if (texts.length === 0) continue;
+
+		const fieldTokens = texts.flatMap(tokenize);
+		let fieldScore = 0;
+		for (const queryToken of queryTokens) {
+			const strength = matchToken(queryToken, fieldTokens, fuzzy);
+			if (strength > 0) {
+				fieldScore += strength;
+				matchedTokens.add(queryToken);
+			}
+		}
+		if (
+			queryTokens.length > 1 &&
+			texts.some((t) => t.toLowerCase().includes(phrase))
+		) {
+			fieldScore += PHRASE_BOOST * queryTokens.length;
+		}
+
+		if (fieldScore > 0) {
+			score += fieldScore * FIELD_WEIGHTS[field];
+			matchedFields.push(field);
+		}
+	}
+
+	if (matchedTokens.size < new Set(queryTokens).size) {
+		return { score: 0, matched_fields: [] };
+	}
+	return {
+		score: Math.round(score * 100) / 100,
+		matched_fields: matchedFields,
+	};
+}
+
+// Rank entries by relevance to a query, dropping non-matches
+export function rankEntries(
+	entries: DaemonEntry[],
+	query: string,
+): ScoredDaemonEntry[] {
+	return entries
+		.map((entry) => ({ ...entry, ...scoreEntry(entry, query) }))
+		.filter((entry) => entry.score > 0)
+		.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
+
+// Keep entries whose daemon.md matched a content query, adding the matches to their score
+export function applyContentMatches(
+	entries: (DaemonEntry | ScoredDaemonEntry)[],
+	matches: Map<string, ContentMatch[]>,
+): ScoredDaemonEntry[] {
+	return entries
+		.filter((entry) => matches.has(entry.id))
+		.map((entry) => {
+			const contentMatches = matches.get(entry.id) || [];
+			const base =
+				"score" in entry ? entry : { ...entry, score: 0, matched_fields: [] };
+			return {
+				...base,
+				score:
+					Math.round(
+						(base.score + contentMatches.length * CONTENT_SECTION_WEIGHT) * 100,
+					) / 100,
+				content_matches: contentMatches,
+			};
+		})
+		.sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+}
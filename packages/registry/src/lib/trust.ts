@@ -0,0 +1,160 @@
+import type { DaemonEntry, Vouch } from "../types";
+import seedRegistry from "../../seed-registry.json";
+import { ed25519SignHex, ed25519VerifyHex } from "./hash";
+import { sameDaemonUrl } from "./resolve";
+
+// Seed entries carrying this tag in the bundled seed data are the roots of the trust graph.
+// The tag is read from the seed file, so an owner adding it through daemon_registry_update doesn't make a root.
+export const TRUST_ROOT_TAG = "upstream";
+
+export const MAX_VOUCH_STATEMENT_LENGTH = 280;
+
+const TRUST_ROOT_IDS = new Set(
+	(seedRegistry.entries as unknown as DaemonEntry[])
+		.filter((e) => e.tags?.includes(TRUST_ROOT_TAG))
+		.map((e) => e.id),
+);
+
+export function isTrustRoot(id: string): boolean {
+	return TRUST_ROOT_IDS.has(id);
+}
+
+// Canonical form of an edge for signing: one field per line, in a fixed order
+function canonicalVouch(vouch: Omit<Vouch, "signature">): string {
+	return [
+		vouch.voucher_id,
+		vouch.voucher_url,
+		vouch.target_id,
+		vouch.target_url,
+		vouch.created_at,
+		vouch.statement || "",
+	].join("\n");
+}
+
+// A fresh Ed25519 key pair for signing vouch edges, as JWKs (the private half never leaves RegistryState)
+export async function generateVouchSigningKey(): Promise<{
+	private_key: JsonWebKey;
+	public_key: JsonWebKey;
+}> {
+	const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+		"sign",
+		"verify",
+	])) as CryptoKeyPair;
+	return {
+		private_key: (await crypto.subtle.exportKey(
+			"jwk",
+			pair.privateKey,
+		)) as JsonWebKey,
+		public_key: (await crypto.subtle.exportKey(
+			"jwk",
+			pair.publicKey,
+		)) as JsonWebKey,
+	};
+}
+
+export async function importVouchKey(
+	jwk: JsonWebKey,
+	usage: "sign" | "verify",
+): Promise<CryptoKey> {
+	return crypto.subtle.importKey("jwk", jwk, { name: "Ed25519" }, false, [
+		usage,
+	]);
+}
+
+/**
+ * Sign a vouch edge with the registry's key. The signature is the hex Ed25519 signature of the
+ * canonical edge, so anyone holding the published public key can check the edge wasn't altered.
+ */
+export async function signVouch(
+	privateKey: CryptoKey,
+	edge: Omit<Vouch, "signature">,
+): Promise<Vouch> {
+	return {
+		...edge,
+		signature: await ed25519SignHex(privateKey, canonicalVouch(edge)),
+	};
+}
+
+export async function verifyVouch(
+	publicKey: CryptoKey,
+	vouch: Vouch,
+): Promise<boolean> {
+	try {
+		return await ed25519VerifyHex(
+			publicKey,
+			vouch.signature,
+			canonicalVouch(vouch),
+		);
+	} catch {
+		return false;
+	}
+}
+
+export interface TrustNode {
+	depth: number;
+	via?: string; // voucher on a shortest path from a root (absent for roots)
+}
+
+/**
+ * Breadth-first search from the trust roots over vouch edges.
+ * An edge counts while its signature checks out against the registry's public key, its voucher is
+ * listed, verified (or a root) and still at the URL it vouched from, and its target is listed.
+ * Unreachable daemons have no node.
+ */
+export async function computeTrust(
+	entries: DaemonEntry[],
+	vouches: Vouch[],
+	publicKey?: CryptoKey,
+): Promise<Map<string, TrustNode>> {
+	const byId = new Map(entries.map((e) => [e.id, e]));
+	const outgoing = new Map<string, Vouch[]>();
+	for (const vouch of vouches) {
+		const voucher = byId.get(vouch.voucher_id);
+		if (!voucher || !sameDaemonUrl(voucher.url, vouch.voucher_url)) continue;
+		if (!voucher.verified && !isTrustRoot(voucher.id)) continue;
+		if (!byId.has(vouch.target_id)) continue;
+		if (!publicKey || !(await verifyVouch(publicKey, vouch))) continue;
+		outgoing.set(vouch.voucher_id, [
+			...(outgoing.get(vouch.voucher_id) || []),
+			vouch,
+		]);
+	}
+
+	const nodes = new Map<string, TrustNode>();
+	const queue = entries.filter((e) => isTrustRoot(e.id)).map((e) => e.id);
+	for (const id of queue) nodes.set(id, { depth: 0 });
+
+	for (let i = 0; i < queue.length; i++) {
+		const id = queue[i];
+		const depth = (nodes.get(id)?.depth ?? 0) + 1;
+		for (const vouch of outgoing.get(id) || []) {
+			if (nodes.has(vouch.target_id)) continue;
+			nodes.set(vouch.target_id, { depth, via: id });
+			queue.push(vouch.target_id);
+		}
+	}
+	return nodes;
+}
+
+// Copy each entry with its trust_depth (left unset for unreachable daemons)
+export function withTrustDepth<T extends DaemonEntry>(
+	entries: T[],
+	trust: Map<string, TrustNode>,
+): T[] {
+	return entries.map((entry) => {
+		const { trust_depth: _, ...rest } = entry;
+		const node = trust.get(entry.id);
+		return (node ? { ...rest, trust_depth: node.depth } : rest) as T;
+	});
+}
+
+// Shortest vouch chain from a root to the daemon, root first (empty if unreachable)
+export function trustPath(trust: Map<string, TrustNode>, id: string): string[] {
+	const path: string[] = [];
+	let current: string | undefined = id;
+	while (current && trust.has(current)) {
+		path.unshift(current);
+		current = trust.get(current)?.via;
+	}
+	return path;
+}
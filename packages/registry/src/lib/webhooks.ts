@@ -0,0 +1,236 @@
+import type {
+	ActivityEvent,
+	WebhookDelivery,
+	WebhookFilters,
+	WebhookSubscription,
+} from "../types";
+import { hmacSha256Hex } from "./hash";
+import { sameDaemonId } from "./resolve";
+
+// Legacy KV keys (subscriptions and retries now live in RegistryState, which imports these once)
+const KV_WEBHOOK_PREFIX = "webhook:";
+const KV_WEBHOOK_RETRY_PREFIX = "webhook_retry:";
+
+// Delivery config
+const WEBHOOK_TIMEOUT_MS = 5000;
+const WEBHOOK_RETRY_DELAYS_MS = [
+	60,
+	5 * 60,
+	30 * 60,
+	2 * 60 * 60,
+	12 * 60 * 60,
+].map((s) => s * 1000);
+
+// Subscription limits: overall, and per receiving domain so the registry can't be pointed at one site many times over
+export const MAX_WEBHOOK_SUBSCRIPTIONS = 200;
+export const MAX_WEBHOOK_SUBSCRIPTIONS_PER_DOMAIN = 5;
+
+// Subscriptions lapse after this long, so abandoned ones free their slots (subscribe again to renew)
+const WEBHOOK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Suffixes under which each subdomain has its own owner, so the per-domain limit counts one label deeper.
+// Two-letter country codes with a generic second level (co.uk, com.au, ...) are handled by rule.
+const SHARED_HOST_SUFFIXES = new Set([
+	"github.io",
+	"gitlab.io",
+	"pages.dev",
+	"workers.dev",
+	"netlify.app",
+	"vercel.app",
+	"herokuapp.com",
+	"fly.dev",
+	"onrender.com",
+	"web.app",
+	"firebaseapp.com",
+	"appspot.com",
+	"azurewebsites.net",
+	"blogspot.com",
+]);
+const COUNTRY_SECOND_LEVELS = new Set([
+	"ac",
+	"co",
+	"com",
+	"edu",
+	"gov",
+	"net",
+	"org",
+]);
+
+function randomHex(bytes: number): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (b) =>
+		b.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+export function newWebhookDeliveryId(): string {
+	return `whd_${randomHex(12)}`;
+}
+
+// Registrable domain a subscription delivers to (the per-domain limit counts these), so
+// throwaway subdomains of one domain share its slots. IP addresses count as themselves.
+export function webhookDomain(
+	subscription: Pick<WebhookSubscription, "url">,
+): string {
+	const host = new URL(subscription.url).hostname.toLowerCase();
+	if (/^[\d.]+$|:/.test(host)) return host;
+
+	const labels = host.split(".");
+	const tld = labels[labels.length - 1];
+	const suffixLength =
+		SHARED_HOST_SUFFIXES.has(labels.slice(-2).join(".")) ||
+		(tld.length === 2 && COUNTRY_SECOND_LEVELS.has(labels[labels.length - 2]))
+			? 2
+			: 1;
+	return labels.slice(-(suffixLength + 1)).join(".");
+}
+
+// Legacy subscriptions have no expires_at and lapse WEBHOOK_TTL_MS after they were created
+export function isWebhookExpired(
+	subscription: WebhookSubscription,
+	now = Date.now(),
+): boolean {
+	const expiresAt = subscription.expires_at
+		? Date.parse(subscription.expires_at)
+		: Date.parse(subscription.created_at) + WEBHOOK_TTL_MS;
+	return expiresAt <= now;
+}
+
+// Build a new subscription. The secret is returned to the caller once and signs every delivery.
+export function newWebhookSubscription(
+	url: string,
+	filters: WebhookFilters,
+): { subscription?: WebhookSubscription; error?: string } {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return { error: "Invalid URL format" };
+	}
+	if (parsed.protocol !== "https:") {
+		return { error: "Webhook URL must use https" };
+	}
+
+	return {
+		subscription: {
+			id: `wh_${randomHex(12)}`,
+			url: parsed.toString(),
+			secret: randomHex(32),
+			filters,
+			created_at: new Date().toISOString(),
+			expires_at: new Date(Date.now() + WEBHOOK_TTL_MS).toISOString(),
+		},
+	};
+}
+
+export function matchesWebhookFilters(
+	filters: WebhookFilters,
+	event: ActivityEvent,
+	tags: string[],
+): boolean {
+	if (filters.types?.length && !filters.types.includes(event.type))
+		return false;
+	if (
+		filters.daemon_ids?.length &&
+		!filters.daemon_ids.some(
+			(id) => event.daemon_id && sameDaemonId(id, event.daemon_id),
+		)
+	)
+		return false;
+	if (filters.tags?.length) {
+		const eventTags = tags.map((t) => t.toLowerCase());
+		if (!filters.tags.some((t) => eventTags.includes(t.toLowerCase())))
+			return false;
+	}
+	return true;
+}
+
+/**
+ * POST one event to a subscriber.
+ * The body is signed as `X-Registry-Signature: sha256=<hex HMAC of "<timestamp>.<body>">`
+ * with the subscription secret, where timestamp is the X-Registry-Timestamp header (Unix seconds).
+ * Redirects are not followed; any 2xx counts as delivered.
+ */
+export async function sendWebhook(
+	subscription: WebhookSubscription,
+	deliveryId: string,
+	event: ActivityEvent,
+): Promise<{ ok: boolean; error?: string }> {
+	const body = JSON.stringify({
+		delivery_id: deliveryId,
+		subscription_id: subscription.id,
+		event,
+	});
+	const timestamp = Math.floor(Date.now() / 1000).toString();
+	const signature = await hmacSha256Hex(
+		subscription.secret,
+		`${timestamp}.${body}`,
+	);
+
+	try {
+		const response = await fetch(subscription.url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				"User-Agent": "DaemonRegistry/1.0",
+				"X-Registry-Event": event.type,
+				"X-Registry-Delivery": deliveryId,
+				"X-Registry-Timestamp": timestamp,
+				"X-Registry-Signature": `sha256=${signature}`,
+			},
+			body,
+			redirect: "manual",
+			signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+		});
+		await response.body?.cancel();
+		return response.ok
+			? { ok: true }
+			: { ok: false, error: `HTTP ${response.status}` };
+	} catch (e) {
+		return {
+			ok: false,
+			error: e instanceof Error ? e.message : "Unknown error",
+		};
+	}
+}
+
+// After a failed attempt, each retry waits longer (1m, 5m, 30m, 2h, 12h); null once the delivery should be dropped
+export function nextWebhookAttempt(
+	delivery: WebhookDelivery,
+	error: string | undefined,
+	now: number,
+): WebhookDelivery | null {
+	if (delivery.attempts >= WEBHOOK_RETRY_DELAYS_MS.length) return null;
+	return {
+		...delivery,
+		attempts: delivery.attempts + 1,
+		next_attempt_at: new Date(
+			now + WEBHOOK_RETRY_DELAYS_MS[delivery.attempts],
+		).toISOString(),
+		last_error: error,
+	};
+}
+
+// Read subscriptions and queued retries written to KV before RegistryState held them
+export async function loadLegacyWebhooksFromKV(kv: KVNamespace): Promise<{
+	subscriptions: WebhookSubscription[];
+	deliveries: WebhookDelivery[];
+}> {
+	const read = async <T>(prefix: string): Promise<T[]> => {
+		const values: T[] = [];
+		let cursor: string | undefined;
+		do {
+			const page = await kv.list({ prefix, cursor });
+			for (const key of page.keys) {
+				const value = await kv.get<T>(key.name, "json");
+				if (value) values.push(value);
+			}
+			cursor = page.list_complete ? undefined : page.cursor;
+		} while (cursor);
+		return values;
+	};
+
+	return {
+		subscriptions: await read<WebhookSubscription>(KV_WEBHOOK_PREFIX),
+		deliveries: await read<WebhookDelivery>(KV_WEBHOOK_RETRY_PREFIX),
+	};
+}
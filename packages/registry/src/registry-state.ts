@@ -0,0 +1,1040 @@
+import { DurableObject } from "cloudflare:workers";
+
+import type {
+	ActivityEvent,
+	DaemonEntry,
+	DiscoveredDaemon,
+	Env,
+	HealthHistory,
+	KnownDaemon,
+	OwnershipChallenge,
+	Vouch,
+	WebhookDelivery,
+	WebhookFilters,
+	WebhookSubscription,
+} from "./types";
+import {
+	loadLegacyDaemonsFromKV,
+	loadLegacyActivityFeed,
+	loadLegacyChallengesFromKV,
+	cacheStoredDaemon,
+	uncacheStoredDaemon,
+	cacheStoredDaemons,
+	cacheMirroredDaemons,
+	cacheSeedHealth,
+	cacheVouches,
+	cacheVouchPublicKey,
+	isSeedDaemon,
+	getSeedDaemon,
+} from "./lib/kv";
+import { recordHealthSample } from "./lib/health-history";
+import { normalizeUrl, sameDaemonId, sameDaemonUrl } from "./lib/resolve";
+import {
+	generateVouchSigningKey,
+	importVouchKey,
+	signVouch,
+} from "./lib/trust";
+import {
+	loadLegacyWebhooksFromKV,
+	matchesWebhookFilters,
+	MAX_WEBHOOK_SUBSCRIPTIONS,
+	MAX_WEBHOOK_SUBSCRIPTIONS_PER_DOMAIN,
+	isWebhookExpired,
+	newWebhookDeliveryId,
+	newWebhookSubscription,
+	nextWebhookAttempt,
+	sendWebhook,
+	webhookDomain,
+} from "./lib/webhooks";
+import {
+	formatActivitySse,
+	SSE_KEEPALIVE,
+	SSE_KEEPALIVE_INTERVAL_MS,
+	SSE_RETRY,
+} from "./lib/activity-stream";
+import {
+	ACTIVITY_PREFIX,
+	activityKey,
+	activityKeyRange,
+	clampActivityLimit,
+	formatActivityId,
+	isActivityId,
+	matchesActivityQuery,
+} from "./lib/activity-log";
+import type { ActivityQuery } from "./lib/activity-log";
+
+// Storage keys (SQLite-backed Durable Object storage)
+const DAEMON_PREFIX = "daemon:";
+const HEALTH_PREFIX = "health:"; // per-daemon health history, kept for seeds too
+const SEED_HEALTH_PREFIX = "seed_health:"; // latest health, lifecycle and content fields for seeds without a stored copy
+const DISCOVERED_PREFIX = "discovered:"; // gossip candidates, keyed by normalized URL
+const MIRROR_PREFIX = "mirror:"; // entries pulled from peer registries: mirror:<registry url> <id>
+const VOUCH_PREFIX = "vouch:"; // web of trust edges: vouch:<voucher id> <target id>
+const WEBHOOK_PREFIX = "webhook:"; // webhook subscriptions by ID
+const WEBHOOK_DELIVERY_PREFIX = "webhook_delivery:"; // queued webhook deliveries by delivery ID, sent by alarm()
+const PROVEN_CHALLENGE_PREFIX = "ownership:"; // proven ownership challenge per daemon ID
+const PENDING_CHALLENGE_PREFIX = "ownership_pending:"; // issued challenges: ownership_pending:<id> <token>
+const IMPORTED_KEY = "meta:imported_from_kv";
+const ACTIVITY_IMPORTED_KEY = "meta:imported_activity_from_kv";
+const WEBHOOKS_IMPORTED_KEY = "meta:imported_webhooks_from_kv";
+const CHALLENGES_IMPORTED_KEY = "meta:imported_challenges_from_kv";
+const ACTIVITY_SEQ_KEY = "meta:activity_seq"; // last assigned activity sequence number
+const VOUCH_KEY_KEY = "meta:vouch_signing_key"; // Ed25519 key pair (JWKs) that signs vouch edges
+
+// Activity log reads list storage in batches; a filtered query stops after scanning this many
+// events and hands back a cursor to continue from
+const ACTIVITY_SCAN_BATCH = 200;
+const MAX_ACTIVITY_SCAN = 5000;
+
+// Events replayed to a resuming stream: the most recent ones for an unknown Last-Event-ID,
+// and at most MAX_ACTIVITY_REPLAY after a known one
+const RECENT_ACTIVITY_REPLAY = 100;
+const MAX_ACTIVITY_REPLAY = 1000;
+
+// Gossip candidates expire when no daemon has referred them for this long, and the
+// least-referred (then least recently seen) are dropped beyond the cap
+const DISCOVERED_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const MAX_DISCOVERED = 1000;
+
+// Open /activity/stream connections held in memory; more are turned away until some close
+const MAX_ACTIVITY_STREAMS = 500;
+
+// Pending ownership challenges kept per daemon ID; the oldest are dropped beyond this
+const MAX_PENDING_CHALLENGES = 20;
+
+// Deliveries sent per alarm run; the alarm re-fires right away while more are due
+const WEBHOOK_ALARM_BATCH = 50;
+
+// KV caches written from this object's storage
+type RegistryCache =
+	| "registry"
+	| "mirror"
+	| "seed_health"
+	| "vouches"
+	| "vouch_key";
+
+// An open /activity/stream connection
+interface ActivityStream {
+	writer: WritableStreamDefaultWriter<Uint8Array>;
+	types: string[]; // empty = every event type
+}
+
+function isChallengeExpired(
+	challenge: OwnershipChallenge,
+	now: number,
+): boolean {
+	return Date.parse(challenge.expires_at) < now;
+}
+
+function isDiscoveredExpired(
+	candidate: DiscoveredDaemon,
+	now: number,
+): boolean {
+	return now - Date.parse(candidate.last_seen_at) > DISCOVERED_TTL_MS;
+}
+
+/**
+ * Single writer for registry state.
+ * Announces, updates, withdrawals and health results are serialized through this
+ * object and committed to its storage; the KV caches in front of it are written only from here,
+ * after each commit.
+ */
+export class RegistryState extends DurableObject<Env> {
+	// Live activity streams are held in memory; clients resume with Last-Event-ID after an eviction
+	private streams = new Set<ActivityStream>();
+	private keepalive?: ReturnType<typeof setInterval>;
+	private encoder = new TextEncoder();
+
+	// Pending KV cache writes (see refreshCaches)
+	private staleCaches = new Set<RegistryCache>();
+	private staleEntryIds = new Set<string>();
+	private queuedCacheWrite?: Promise<void>;
+	private lastCacheWrite: Promise<void> = Promise.resolve();
+
+	constructor(ctx: DurableObjectState, env: Env) {
+		super(ctx, env);
+		ctx.blockConcurrencyWhile(async () => {
+			await this.importFromKV();
+			await this.importActivityFromKV();
+			await this.importWebhooksFromKV();
+			await this.importChallengesFromKV();
+		});
+	}
+
+	// One-time import of entries written to KV before this object existed
+	private async importFromKV(): Promise<void> {
+		if (await this.ctx.storage.get<boolean>(IMPORTED_KEY)) return;
+
+		const legacy = await loadLegacyDaemonsFromKV(this.env.REGISTRY_DATA);
+		const batch: Record<string, DaemonEntry | boolean> = {};
+		for (const entry of legacy) {
+			batch[`${DAEMON_PREFIX}${entry.id}`] = entry;
+		}
+		batch[IMPORTED_KEY] = true;
+
+		// put() accepts at most 128 keys per call; a transaction keeps the import atomic
+		const keys = Object.keys(batch);
+		await this.ctx.storage.transaction(async (txn) => {
+			for (let i = 0; i < keys.length; i += 128) {
+				const chunk: Record<string, DaemonEntry | boolean> = {};
+				for (const key of keys.slice(i, i + 128)) chunk[key] = batch[key];
+				await txn.put(chunk);
+			}
+		});
+	}
+
+	// One-time import of the legacy activity blob into the log, oldest first
+	private async importActivityFromKV(): Promise<void> {
+		if (await this.ctx.storage.get<boolean>(ACTIVITY_IMPORTED_KEY)) return;
+
+		const legacy = (
+			await loadLegacyActivityFeed(this.env.REGISTRY_DATA)
+		).reverse();
+		await this.ctx.storage.transaction(async (txn) => {
+			let seq = (await txn.get<number>(ACTIVITY_SEQ_KEY)) || 0;
+			for (const event of legacy) {
+				const id = formatActivityId(event.timestamp, ++seq);
+				await txn.put(activityKey(id), { ...event, id });
+			}
+			await txn.put({ [ACTIVITY_SEQ_KEY]: seq, [ACTIVITY_IMPORTED_KEY]: true });
+		});
+	}
+
+	// One-time import of webhook subscriptions and queued retries from KV
+	private async importWebhooksFromKV(): Promise<void> {
+		if (await this.ctx.storage.get<boolean>(WEBHOOKS_IMPORTED_KEY)) return;
+
+		const { subscriptions, deliveries } = await loadLegacyWebhooksFromKV(
+			this.env.REGISTRY_DATA,
+		);
+		await this.ctx.storage.transaction(async (txn) => {
+			for (const subscription of subscriptions) {
+				await txn.put(`${WEBHOOK_PREFIX}${subscription.id}`, subscription);
+			}
+			for (const delivery of deliveries) {
+				await txn.put(`${WEBHOOK_DELIVERY_PREFIX}${delivery.id}`, delivery);
+			}
+			await txn.put(WEBHOOKS_IMPORTED_KEY, true);
+		});
+		if (deliveries.length > 0) await this.scheduleWebhookAlarm();
+	}
+
+	// One-time import of ownership challenges from KV
+	private async importChallengesFromKV(): Promise<void> {
+		if (await this.ctx.storage.get<boolean>(CHALLENGES_IMPORTED_KEY)) return;
+
+		const { proven, pending } = await loadLegacyChallengesFromKV(
+			this.env.REGISTRY_DATA,
+		);
+		await this.ctx.storage.transaction(async (txn) => {
+			for (const challenge of proven) {
+				await txn.put(`${PROVEN_CHALLENGE_PREFIX}${challenge.id}`, challenge);
+			}
+			for (const challenge of pending) {
+				await txn.put(
+					`${PENDING_CHALLENGE_PREFIX}${challenge.id} ${challenge.token}`,
+					challenge,
+				);
+			}
+			await txn.put(CHALLENGES_IMPORTED_KEY, true);
+		});
+	}
+
+	// Rewrite KV caches (and per-entry keys) from committed storage. Writes run one at a time and
+	// each reads storage when it starts, so a slow write can't land an older snapshot over a newer
+	// one; changes committed while a write is still queued are folded into it.
+	private refreshCaches(
+		caches: RegistryCache[],
+		entryIds: string[] = [],
+	): Promise<void> {
+		for (const cache of caches) this.staleCaches.add(cache);
+		for (const id of entryIds) this.staleEntryIds.add(id);
+		if (!this.queuedCacheWrite) {
+			const queued = this.lastCacheWrite
+				.then(async () => {
+					this.queuedCacheWrite = undefined;
+					const caches = [...this.staleCaches];
+					const ids = [...this.staleEntryIds];
+					this.staleCaches.clear();
+					this.staleEntryIds.clear();
+					await this.writeCaches(caches, ids);
+				})
+				.catch((e) => console.error("Failed to write registry caches:", e));
+			this.queuedCacheWrite = queued;
+			this.lastCacheWrite = queued;
+		}
+		return this.queuedCacheWrite;
+	}
+
+	private async writeCaches(
+		caches: RegistryCache[],
+		entryIds: string[],
+	): Promise<void> {
+		const kv = this.env.REGISTRY_DATA;
+		await Promise.all([
+			...entryIds.map(async (id) => {
+				const entry = await this.getEntry(id);
+				await (entry
+					? cacheStoredDaemon(kv, entry)
+					: uncacheStoredDaemon(kv, id));
+			}),
+			...caches.map(async (cache) => {
+				switch (cache) {
+					case "registry":
+						return cacheStoredDaemons(kv, await this.storedEntries());
+					case "mirror":
+						return cacheMirroredDaemons(kv, await this.mirroredEntries());
+					case "seed_health":
+						return cacheSeedHealth(kv, await this.seedHealth());
+					case "vouches":
+						return cacheVouches(kv, await this.storedVouches());
+					case "vouch_key": {
+						// Read, not created: key creation can itself queue a cache write
+						const key = await this.ctx.storage.get<{
+							public_key: JsonWebKey;
+						}>(VOUCH_KEY_KEY);
+						if (key) await cacheVouchPublicKey(kv, key.public_key);
+						return;
+					}
+				}
+			}),
+		]);
+	}
+
+	private async storedEntries(): Promise<DaemonEntry[]> {
+		const stored = await this.ctx.storage.list<DaemonEntry>({
+			prefix: DAEMON_PREFIX,
+		});
+		return [...stored.values()];
+	}
+
+	// The list methods below are called on a KV cache miss, so they refill the cache too
+	async listEntries(): Promise<DaemonEntry[]> {
+		this.ctx.waitUntil(this.refreshCaches(["registry"]));
+		return await this.storedEntries();
+	}
+
+	async getEntry(id: string): Promise<DaemonEntry | null> {
+		return (
+			(await this.ctx.storage.get<DaemonEntry>(`${DAEMON_PREFIX}${id}`)) || null
+		);
+	}
+
+	// Merge an update into a stored entry. Seed entries without a stored copy are only
+	// written when a fallback entry is given, so health results don't pin seed data.
+	async updateEntry(
+		id: string,
+		update: Partial<DaemonEntry>,
+		fallback?: DaemonEntry,
+	): Promise<DaemonEntry | null> {
+		const current = (await this.getEntry(id)) || fallback;
+		if (!current) return null;
+
+		const updated = { ...current, ...update };
+		await this.ctx.storage.put(`${DAEMON_PREFIX}${id}`, updated);
+		await this.refreshCaches(["registry"], [id]);
+		return updated;
+	}
+
+	// Insert a newly announced entry, dropping the lapsed claims it supersedes and any
+	// tombstones for the same URL. Returns false if an active entry holds the ID or URL.
+	async insertEntry(
+		entry: DaemonEntry,
+		supersededIds: string[],
+	): Promise<boolean> {
+		const deleted = await this.ctx.storage.transaction(async (txn) => {
+			const stale: string[] = [];
+			const stored = await txn.list<DaemonEntry>({ prefix: DAEMON_PREFIX });
+			for (const existing of stored.values()) {
+				const matches =
+					sameDaemonId(existing.id, entry.id) ||
+					sameDaemonUrl(existing.url, entry.url);
+				if (!matches) continue;
+				if (!existing.withdrawn_at && !supersededIds.includes(existing.id))
+					return null;
+				if (existing.id !== entry.id) stale.push(existing.id);
+			}
+
+			if (stale.length > 0) {
+				await txn.delete(stale.map((id) => `${DAEMON_PREFIX}${id}`));
+			}
+			await txn.put(`${DAEMON_PREFIX}${entry.id}`, entry);
+			// An announced daemon is no longer a gossip candidate
+			await txn.delete(`${DISCOVERED_PREFIX}${normalizeUrl(entry.url)}`);
+			return stale;
+		});
+
+		if (!deleted) return false;
+		await this.refreshCaches(["registry"], [entry.id, ...deleted]);
+		return true;
+	}
+
+	// Apply a batch of health results atomically. Scheduled results are also recorded in each
+	// daemon's history (uptime only counts the cron's checks, so callers can't skew it). Seeds without a stored copy get a separate health record instead, merged over the bundled
+	// seed by loadRegistry, so health results don't pin seed data.
+	async applyHealthResults(
+		results: { id: string; update: Partial<DaemonEntry> }[],
+		options: { scheduled: boolean },
+	): Promise<DaemonEntry[]> {
+		const { applied, seedsChanged } = await this.ctx.storage.transaction(
+			async (txn) => {
+				const applied: DaemonEntry[] = [];
+				let seedsChanged = false;
+				for (const { id, update } of results) {
+					if (options.scheduled) {
+						const history = await txn.get<HealthHistory>(
+							`${HEALTH_PREFIX}${id}`,
+						);
+						await txn.put(
+							`${HEALTH_PREFIX}${id}`,
+							recordHealthSample(history, id, update),
+						);
+					}
+
+					const current = await txn.get<DaemonEntry>(`${DAEMON_PREFIX}${id}`);
+					if (!current) {
+						if (!isSeedDaemon(id)) continue;
+						const health = await txn.get<Partial<DaemonEntry>>(
+							`${SEED_HEALTH_PREFIX}${id}`,
+						);
+						await txn.put(`${SEED_HEALTH_PREFIX}${id}`, {
+							...health,
+							...update,
+						});
+						seedsChanged = true;
+						continue;
+					}
+					const next = { ...current, ...update };
+					await txn.put(`${DAEMON_PREFIX}${id}`, next);
+					applied.push(next);
+				}
+				return { applied, seedsChanged };
+			},
+		);
+		await this.refreshCaches(
+			seedsChanged ? ["registry", "seed_health"] : ["registry"],
+			applied.map((e) => e.id),
+		);
+		return applied;
+	}
+
+	// Health records of seeds without a stored copy, by seed ID
+	async listSeedHealth(): Promise<Record<string, Partial<DaemonEntry>>> {
+		this.ctx.waitUntil(this.refreshCaches(["seed_health"]));
+		return await this.seedHealth();
+	}
+
+	private async seedHealth(): Promise<Record<string, Partial<DaemonEntry>>> {
+		const stored = await this.ctx.storage.list<Partial<DaemonEntry>>({
+			prefix: SEED_HEALTH_PREFIX,
+		});
+		return Object.fromEntries(
+			[...stored].map(([key, health]) => [
+				key.slice(SEED_HEALTH_PREFIX.length),
+				health,
+			]),
+		);
+	}
+
+	async getHealthHistory(id: string): Promise<HealthHistory | null> {
+		return (
+			(await this.ctx.storage.get<HealthHistory>(`${HEALTH_PREFIX}${id}`)) ||
+			null
+		);
+	}
+
+	// Merge gossip peers into the discovered candidates, adding the referrer to each one's provenance,
+	// then expire and cap the candidates. Returns how many candidates are new.
+	async recordDiscovered(
+		referrer: { id: string; url: string },
+		peers: KnownDaemon[],
+	): Promise<number> {
+		const now = new Date().toISOString();
+		return await this.ctx.storage.transaction(async (txn) => {
+			let added = 0;
+			for (const peer of peers) {
+				const key = `${DISCOVERED_PREFIX}${normalizeUrl(peer.url)}`;
+				const existing = await txn.get<DiscoveredDaemon>(key);
+				const via = { id: referrer.id, url: referrer.url, seen_at: now };
+				if (!existing) added++;
+
+				await txn.put(key, {
+					...existing,
+					...Object.fromEntries(
+						Object.entries(peer).filter(([, value]) => value !== undefined),
+					),
+					discovered_at: existing?.discovered_at || now,
+					last_seen_at: now,
+					discovered_via: [
+						...(existing?.discovered_via || []).filter(
+							(v) => v.id !== referrer.id,
+						),
+						via,
+					],
+				} as DiscoveredDaemon);
+			}
+
+			const stored = [
+				...(await txn.list<DiscoveredDaemon>({ prefix: DISCOVERED_PREFIX })),
+			];
+			const live = stored.filter(
+				([, candidate]) => !isDiscoveredExpired(candidate, Date.parse(now)),
+			);
+			const kept = new Set(
+				live
+					.sort(
+						([, a], [, b]) =>
+							b.discovered_via.length - a.discovered_via.length ||
+							b.last_seen_at.localeCompare(a.last_seen_at),
+					)
+					.slice(0, MAX_DISCOVERED)
+					.map(([key]) => key),
+			);
+			const dropped = stored
+				.map(([key]) => key)
+				.filter((key) => !kept.has(key));
+			for (let i = 0; i < dropped.length; i += 128) {
+				await txn.delete(dropped.slice(i, i + 128));
+			}
+			return added;
+		});
+	}
+
+	// Unexpired candidates (most-referred first)
+	async listDiscovered(): Promise<DiscoveredDaemon[]> {
+		const stored = await this.ctx.storage.list<DiscoveredDaemon>({
+			prefix: DISCOVERED_PREFIX,
+		});
+		return [...stored.values()]
+			.filter((candidate) => !isDiscoveredExpired(candidate, Date.now()))
+			.sort(
+				(a, b) =>
+					b.discovered_via.length - a.discovered_via.length ||
+					a.url.localeCompare(b.url),
+			);
+	}
+
+	async listMirrored(): Promise<DaemonEntry[]> {
+		this.ctx.waitUntil(this.refreshCaches(["mirror"]));
+		return await this.mirroredEntries();
+	}
+
+	private async mirroredEntries(): Promise<DaemonEntry[]> {
+		const stored = await this.ctx.storage.list<DaemonEntry>({
+			prefix: MIRROR_PREFIX,
+		});
+		return [...stored.values()];
+	}
+
+	// Swap in a fresh pull from one peer registry, dropping entries it no longer lists
+	async replaceMirror(source: string, entries: DaemonEntry[]): Promise<void> {
+		const prefix = `${MIRROR_PREFIX}${source} `;
+		await this.ctx.storage.transaction(async (txn) => {
+			const next = new Map(entries.map((e) => [`${prefix}${e.id}`, e]));
+			const stale = [...(await txn.list({ prefix })).keys()].filter(
+				(key) => !next.has(key),
+			);
+
+			// put() and delete() accept at most 128 keys per call
+			for (let i = 0; i < stale.length; i += 128) {
+				await txn.delete(stale.slice(i, i + 128));
+			}
+			const keys = [...next.keys()];
+			for (let i = 0; i < keys.length; i += 128) {
+				await txn.put(
+					Object.fromEntries(
+						keys.slice(i, i + 128).map((key) => [key, next.get(key)]),
+					),
+				);
+			}
+		});
+		await this.refreshCaches(["mirror"]);
+	}
+
+	async listVouches(): Promise<Vouch[]> {
+		this.ctx.waitUntil(this.refreshCaches(["vouches"]));
+		return await this.storedVouches();
+	}
+
+	private async storedVouches(): Promise<Vouch[]> {
+		const stored = await this.ctx.storage.list<Vouch>({ prefix: VOUCH_PREFIX });
+		return [...stored.values()];
+	}
+
+	// The registry's vouch signing key, created on first use. Edges stored before the key existed
+	// (signed with the voucher's owner_secret) are re-signed with it in the same transaction.
+	private async getVouchSigningKey(): Promise<{
+		private_key: JsonWebKey;
+		public_key: JsonWebKey;
+	}> {
+		const existing = await this.ctx.storage.get<{
+			private_key: JsonWebKey;
+			public_key: JsonWebKey;
+		}>(VOUCH_KEY_KEY);
+		if (existing) return existing;
+
+		const generated = await generateVouchSigningKey();
+		const privateKey = await importVouchKey(generated.private_key, "sign");
+		const { key, resigned } = await this.ctx.storage.transaction(
+			async (txn) => {
+				const raced = await txn.get<{
+					private_key: JsonWebKey;
+					public_key: JsonWebKey;
+				}>(VOUCH_KEY_KEY);
+				if (raced) return { key: raced, resigned: 0 };
+
+				const stored = [...(await txn.list<Vouch>({ prefix: VOUCH_PREFIX }))];
+				for (let i = 0; i < stored.length; i += 128) {
+					const chunk: Record<string, Vouch> = {};
+					for (const [storageKey, { signature: _, ...edge }] of stored.slice(
+						i,
+						i + 128,
+					)) {
+						chunk[storageKey] = await signVouch(privateKey, edge);
+					}
+					await txn.put(chunk);
+				}
+				await txn.put(VOUCH_KEY_KEY, generated);
+				return { key: generated, resigned: stored.length };
+			},
+		);
+		if (resigned > 0) await this.refreshCaches(["vouches"]);
+		return key;
+	}
+
+	// Public half of the vouch signing key, for anyone checking edge signatures
+	async getVouchPublicKey(): Promise<JsonWebKey> {
+		const { public_key } = await this.getVouchSigningKey();
+		this.ctx.waitUntil(this.refreshCaches(["vouch_key"]));
+		return public_key;
+	}
+
+	// Sign and add (or replace) the edge from one daemon to another
+	async putVouch(edge: Omit<Vouch, "signature">): Promise<Vouch> {
+		const { private_key } = await this.getVouchSigningKey();
+		const vouch = await signVouch(
+			await importVouchKey(private_key, "sign"),
+			edge,
+		);
+		await this.ctx.storage.put(
+			`${VOUCH_PREFIX}${vouch.voucher_id} ${vouch.target_id}`,
+			vouch,
+		);
+		await this.refreshCaches(["vouches"]);
+		return vouch;
+	}
+
+	// Remove one edge, or every edge from a voucher when no target is given. Returns how many were removed.
+	async deleteVouches(voucherId: string, targetId?: string): Promise<number> {
+		const removed = await this.ctx.storage.transaction(async (txn) => {
+			const keys = targetId
+				? [`${VOUCH_PREFIX}${voucherId} ${targetId}`]
+				: [
+						...(
+							await txn.list({ prefix: `${VOUCH_PREFIX}${voucherId} ` })
+						).keys(),
+					];
+			let count = 0;
+			for (let i = 0; i < keys.length; i += 128) {
+				count += await txn.delete(keys.slice(i, i + 128));
+			}
+			return count;
+		});
+		if (removed > 0) await this.refreshCaches(["vouches"]);
+		return removed;
+	}
+
+	// Append an event to the activity log under the next sequence number, push it to open streams,
+	// and queue a delivery for each matching webhook (sent by alarm(), not by the caller)
+	async appendActivity(
+		event: Omit<ActivityEvent, "id" | "timestamp">,
+	): Promise<ActivityEvent> {
+		const { stored, queued } = await this.ctx.storage.transaction(
+			async (txn) => {
+				const seq = ((await txn.get<number>(ACTIVITY_SEQ_KEY)) || 0) + 1;
+				const timestamp = new Date().toISOString();
+				const appended: ActivityEvent = {
+					...event,
+					id: formatActivityId(timestamp, seq),
+					timestamp,
+				};
+				await txn.put({
+					[ACTIVITY_SEQ_KEY]: seq,
+					[activityKey(appended.id)]: appended,
+				});
+
+				const subscriptions = [
+					...(
+						await txn.list<WebhookSubscription>({ prefix: WEBHOOK_PREFIX })
+					).values(),
+				].filter((s) => !isWebhookExpired(s));
+				// Tags are looked up only when some subscription filters on them
+				let tags: string[] = [];
+				if (
+					appended.daemon_id &&
+					subscriptions.some((s) => s.filters.tags?.length)
+				) {
+					const entry =
+						(await txn.get<DaemonEntry>(
+							`${DAEMON_PREFIX}${appended.daemon_id}`,
+						)) || getSeedDaemon(appended.daemon_id);
+					tags = entry?.tags || [];
+				}
+
+				let queued = 0;
+				for (const subscription of subscriptions) {
+					if (!matchesWebhookFilters(subscription.filters, appended, tags))
+						continue;
+					const delivery: WebhookDelivery = {
+						id: newWebhookDeliveryId(),
+						subscription_id: subscription.id,
+						event: appended,
+						attempts: 0,
+						next_attempt_at: timestamp,
+					};
+					await txn.put(`${WEBHOOK_DELIVERY_PREFIX}${delivery.id}`, delivery);
+					queued++;
+				}
+				return { stored: appended, queued };
+			},
+		);
+
+		this.publishActivity(stored);
+		if (queued > 0) {
+			const alarm = await this.ctx.storage.getAlarm();
+			if (alarm === null || alarm > Date.now())
+				await this.ctx.storage.setAlarm(Date.now());
+		}
+		return stored;
+	}
+
+	// Add a webhook subscription, within the overall and per-domain limits.
+	// Expired subscriptions are deleted first, so their slots go to new subscribers.
+	async addWebhook(
+		url: string,
+		filters: WebhookFilters,
+	): Promise<{ subscription?: WebhookSubscription; error?: string }> {
+		const { subscription, error } = newWebhookSubscription(url, filters);
+		if (!subscription) return { error };
+
+		const domain = webhookDomain(subscription);
+		return await this.ctx.storage.transaction(async (txn) => {
+			const existing: WebhookSubscription[] = [];
+			for (const [key, stored] of await txn.list<WebhookSubscription>({
+				prefix: WEBHOOK_PREFIX,
+			})) {
+				if (isWebhookExpired(stored)) await txn.delete(key);
+				else existing.push(stored);
+			}
+			if (existing.length >= MAX_WEBHOOK_SUBSCRIPTIONS) {
+				return {
+					error: `Subscription limit reached (${MAX_WEBHOOK_SUBSCRIPTIONS})`,
+				};
+			}
+			if (
+				existing.filter((s) => webhookDomain(s) === domain).length >=
+				MAX_WEBHOOK_SUBSCRIPTIONS_PER_DOMAIN
+			) {
+				return {
+					error: `Subscription limit reached for ${domain} (${MAX_WEBHOOK_SUBSCRIPTIONS_PER_DOMAIN})`,
+				};
+			}
+			await txn.put(`${WEBHOOK_PREFIX}${subscription.id}`, subscription);
+			return { subscription };
+		});
+	}
+
+	// Expired subscriptions read as missing (their queued deliveries are then dropped)
+	async getWebhook(id: string): Promise<WebhookSubscription | null> {
+		const subscription = await this.ctx.storage.get<WebhookSubscription>(
+			`${WEBHOOK_PREFIX}${id}`,
+		);
+		return subscription && !isWebhookExpired(subscription)
+			? subscription
+			: null;
+	}
+
+	// Remove a webhook and any deliveries still queued for it
+	async removeWebhook(id: string): Promise<void> {
+		await this.ctx.storage.transaction(async (txn) => {
+			const queued = await txn.list<WebhookDelivery>({
+				prefix: WEBHOOK_DELIVERY_PREFIX,
+			});
+			const keys = [...queued]
+				.filter(([, delivery]) => delivery.subscription_id === id)
+				.map(([key]) => key);
+			for (let i = 0; i < keys.length; i += 128) {
+				await txn.delete(keys.slice(i, i + 128));
+			}
+			await txn.delete(`${WEBHOOK_PREFIX}${id}`);
+		});
+	}
+
+	async getProvenChallenge(id: string): Promise<OwnershipChallenge | null> {
+		return (
+			(await this.ctx.storage.get<OwnershipChallenge>(
+				`${PROVEN_CHALLENGE_PREFIX}${id}`,
+			)) || null
+		);
+	}
+
+	// Promote a pending challenge whose token was found published; it replaces any earlier
+	// proven one in the same transaction, so owner checks never see both or neither
+	async proveChallenge(challenge: OwnershipChallenge): Promise<void> {
+		await this.ctx.storage.transaction(async (txn) => {
+			await txn.put(`${PROVEN_CHALLENGE_PREFIX}${challenge.id}`, challenge);
+			await txn.delete(
+				`${PENDING_CHALLENGE_PREFIX}${challenge.id} ${challenge.token}`,
+			);
+		});
+	}
+
+	// Store an issued challenge. Expired ones for the same ID are deleted, and the oldest
+	// beyond MAX_PENDING_CHALLENGES, so repeated announces can't grow storage without bound.
+	async addPendingChallenge(challenge: OwnershipChallenge): Promise<void> {
+		const now = Date.now();
+		await this.ctx.storage.transaction(async (txn) => {
+			const live: [string, OwnershipChallenge][] = [];
+			for (const [key, stored] of await txn.list<OwnershipChallenge>({
+				prefix: `${PENDING_CHALLENGE_PREFIX}${challenge.id} `,
+			})) {
+				if (isChallengeExpired(stored, now)) await txn.delete(key);
+				else live.push([key, stored]);
+			}
+			const stale = live
+				.sort(([, a], [, b]) => a.issued_at.localeCompare(b.issued_at))
+				.slice(0, Math.max(0, live.length - MAX_PENDING_CHALLENGES + 1))
+				.map(([key]) => key);
+			if (stale.length > 0) await txn.delete(stale);
+			await txn.put(
+				`${PENDING_CHALLENGE_PREFIX}${challenge.id} ${challenge.token}`,
+				challenge,
+			);
+		});
+	}
+
+	// The unexpired pending challenge issued for this ID with this token
+	async getPendingChallenge(
+		id: string,
+		token: string,
+	): Promise<OwnershipChallenge | null> {
+		const challenge = await this.ctx.storage.get<OwnershipChallenge>(
+			`${PENDING_CHALLENGE_PREFIX}${id} ${token}`,
+		);
+		return challenge && !isChallengeExpired(challenge, Date.now())
+			? challenge
+			: null;
+	}
+
+	async listPendingChallenges(id: string): Promise<OwnershipChallenge[]> {
+		const now = Date.now();
+		const stored = await this.ctx.storage.list<OwnershipChallenge>({
+			prefix: `${PENDING_CHALLENGE_PREFIX}${id} `,
+		});
+		return [...stored.values()].filter((c) => !isChallengeExpired(c, now));
+	}
+
+	// Drop the proven and every pending challenge for a daemon ID
+	async deleteChallenges(id: string): Promise<void> {
+		await this.ctx.storage.transaction(async (txn) => {
+			const pending = [
+				...(
+					await txn.list({ prefix: `${PENDING_CHALLENGE_PREFIX}${id} ` })
+				).keys(),
+			];
+			for (let i = 0; i < pending.length; i += 128) {
+				await txn.delete(pending.slice(i, i + 128));
+			}
+			await txn.delete(`${PROVEN_CHALLENGE_PREFIX}${id}`);
+		});
+	}
+
+	// Send due webhook deliveries. Failures are retried with backoff (see nextWebhookAttempt), then dropped.
+	async alarm(): Promise<void> {
+		const now = Date.now();
+		const queued = [
+			...(
+				await this.ctx.storage.list<WebhookDelivery>({
+					prefix: WEBHOOK_DELIVERY_PREFIX,
+				})
+			).values(),
+		];
+		const due = queued
+			.filter((d) => Date.parse(d.next_attempt_at) <= now)
+			.slice(0, WEBHOOK_ALARM_BATCH);
+
+		await Promise.all(
+			due.map(async (delivery) => {
+				const key = `${WEBHOOK_DELIVERY_PREFIX}${delivery.id}`;
+				const subscription = await this.getWebhook(delivery.subscription_id);
+				if (!subscription) {
+					await this.ctx.storage.delete(key);
+					return;
+				}
+
+				const result = await sendWebhook(
+					subscription,
+					delivery.id,
+					delivery.event,
+				);
+				if (result.ok) {
+					await this.ctx.storage.delete(key);
+					return;
+				}
+				const retry = nextWebhookAttempt(delivery, result.error, Date.now());
+				if (retry) {
+					await this.ctx.storage.put(key, retry);
+				} else {
+					console.error(
+						`Webhook delivery ${delivery.id} to ${subscription.url} dropped after ${delivery.attempts + 1} attempts: ${result.error}`,
+					);
+					await this.ctx.storage.delete(key);
+				}
+			}),
+		);
+
+		await this.scheduleWebhookAlarm();
+	}
+
+	// Wake up for the earliest queued delivery, if any
+	private async scheduleWebhookAlarm(): Promise<void> {
+		const queued = await this.ctx.storage.list<WebhookDelivery>({
+			prefix: WEBHOOK_DELIVERY_PREFIX,
+		});
+		const next = Math.min(
+			...[...queued.values()].map((d) => Date.parse(d.next_attempt_at)),
+		);
+		if (Number.isFinite(next))
+			await this.ctx.storage.setAlarm(Math.max(next, Date.now()));
+	}
+
+	async getActivity(id: string): Promise<ActivityEvent | null> {
+		if (!isActivityId(id)) return null;
+		return (await this.ctx.storage.get<ActivityEvent>(activityKey(id))) || null;
+	}
+
+	// Page through the log newest first. next_cursor is set while older events may remain.
+	async queryActivity(
+		query: ActivityQuery,
+	): Promise<{ events: ActivityEvent[]; next_cursor?: string }> {
+		const limit = clampActivityLimit(query.limit);
+		const { start, end } = activityKeyRange(query);
+		const events: ActivityEvent[] = [];
+
+		let lastId: string | undefined;
+		let more = true;
+		let scanned = 0;
+		while (more && events.length < limit && scanned < MAX_ACTIVITY_SCAN) {
+			const batch = await this.ctx.storage.list<ActivityEvent>({
+				start,
+				end: lastId ? activityKey(lastId) : end,
+				reverse: true,
+				limit: ACTIVITY_SCAN_BATCH,
+			});
+			more = batch.size === ACTIVITY_SCAN_BATCH;
+
+			let remaining = batch.size;
+			for (const event of batch.values()) {
+				remaining--;
+				scanned++;
+				lastId = event.id;
+				if (matchesActivityQuery(event, query)) events.push(event);
+				if (events.length === limit) {
+					more ||= remaining > 0;
+					break;
+				}
+			}
+		}
+
+		return { events, next_cursor: more ? lastId : undefined };
+	}
+
+	// Events after lastEventId, oldest first. An unknown ID replays the most recent events.
+	private async activityAfter(lastEventId: string): Promise<ActivityEvent[]> {
+		if (!isActivityId(lastEventId)) {
+			const recent = await this.ctx.storage.list<ActivityEvent>({
+				prefix: ACTIVITY_PREFIX,
+				reverse: true,
+				limit: RECENT_ACTIVITY_REPLAY,
+			});
+			return [...recent.values()].reverse();
+		}
+		const after = await this.ctx.storage.list<ActivityEvent>({
+			start: `${activityKey(lastEventId)}\0`,
+			end: `${ACTIVITY_PREFIX};`,
+			limit: MAX_ACTIVITY_REPLAY,
+		});
+		return [...after.values()];
+	}
+
+	// Open an activity stream (GET /activity/stream), replaying events missed since Last-Event-ID
+	async fetch(request: Request): Promise<Response> {
+		const url = new URL(request.url);
+		if (url.pathname !== "/activity/stream") {
+			return new Response("Not found", { status: 404 });
+		}
+		if (this.streams.size >= MAX_ACTIVITY_STREAMS) {
+			return new Response("Too many open activity streams", {
+				status: 503,
+				headers: { "Retry-After": "60", "Access-Control-Allow-Origin": "*" },
+			});
+		}
+
+		const { readable, writable } = new TransformStream<
+			Uint8Array,
+			Uint8Array
+		>();
+		const stream: ActivityStream = {
+			writer: writable.getWriter(),
+			types: url.searchParams.getAll("type"),
+		};
+
+		// Writes are queued in order, so the replay lands before any live event
+		this.send(stream, SSE_RETRY);
+		const lastEventId =
+			request.headers.get("Last-Event-ID") ||
+			url.searchParams.get("last_event_id");
+		if (lastEventId) {
+			for (const event of await this.activityAfter(lastEventId)) {
+				if (this.wants(stream, event))
+					this.send(stream, formatActivitySse(event));
+			}
+		}
+
+		this.streams.add(stream);
+		this.keepalive ??= setInterval(() => {
+			for (const open of this.streams) this.send(open, SSE_KEEPALIVE);
+		}, SSE_KEEPALIVE_INTERVAL_MS);
+
+		return new Response(readable, {
+			headers: {
+				"Content-Type": "text/event-stream",
+				"Cache-Control": "no-cache",
+				"Access-Control-Allow-Origin": "*",
+			},
+		});
+	}
+
+	// Push a newly written activity event to every open stream
+	private publishActivity(event: ActivityEvent): void {
+		const message = formatActivitySse(event);
+		for (const stream of this.streams) {
+			if (this.wants(stream, event)) this.send(stream, message);
+		}
+	}
+
+	private wants(stream: ActivityStream, event: ActivityEvent): boolean {
+		return stream.types.length === 0 || stream.types.includes(event.type);
+	}
+
+	// Write without awaiting (a slow reader must not block others); a failed write means the client left
+	private send(stream: ActivityStream, chunk: string): void {
+		stream.writer.write(this.encoder.encode(chunk)).catch(() => {
+			this.streams.delete(stream);
+			if (this.streams.size === 0 && this.keepalive) {
+				clearInterval(this.keepalive);
+				this.keepalive = undefined;
+			}
+		});
+	}
+}
@@ -7,43 +7,47 @@ const MCP_URL = "https://registry.daemon.saltedkeys.io";
 export const META_TOOLS = [
 	{
 		name: "get_orientation",
-		description: "START HERE - Community Daemon Registry and how to explore the network",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		description:
+			"START HERE - Community Daemon Registry and how to explore the network",
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 	{
 		name: "get_mcp_config",
-		description: "Get MCP configuration snippet for Claude Code or other MCP clients",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		description:
+			"Get MCP configuration snippet for Claude Code or other MCP clients",
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 	{
 		name: "get_protocol_info",
-		description: "Get protocol details - transports, JSON-RPC examples, and endpoints",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		description:
+			"Get protocol details - transports, JSON-RPC examples, and endpoints",
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 	{
 		name: "ai_briefing",
-		description: "AI-specific usage guidance - how to effectively use the daemon registry",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		description:
+			"AI-specific usage guidance - how to effectively use the daemon registry",
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 	{
 		name: "get_status",
 		description: "Get registry status - version, health, daemon counts",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 	{
 		name: "get_capabilities",
 		description: "Get categorized list of all available tools",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 	{
 		name: "get_changelog",
 		description: "Get recent changes and version history",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 	{
 		name: "daemon_registry_random",
 		description: "Discover a random daemon from the registry for exploration",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		inputSchema: { type: "object", properties: {}, required: [] },
 	},
 ];
 
@@ -58,9 +62,13 @@ A Daemon is a personal API that represents a human's identity, context, and pref
 ## Registry Tools (Start Here)
 - \`daemon_registry_list\` - Browse all registered daemons
 - \`daemon_registry_search\` - Search by name, tag, or focus area
+- \`daemon_registry_get\` - Look up one daemon by ID (e.g., io.saltedkeys.swift) or URL
 - \`daemon_registry_random\` - Discover a random daemon
 - \`daemon_registry_capabilities\` - See what tools each daemon offers
+- \`get_known_daemons\` - Gossip: the daemons this registry knows (personal daemons can expose it too)
 - \`daemon_registry_announce\` - Register your own daemon
+- \`daemon_registry_verify\` - Prove you own your daemon's domain
+- \`daemon_registry_vouches\` - Web of trust: who vouches for a daemon and how far it is from an upstream seed
 
 ## Integration
 - \`get_mcp_config\` - Add this server to Claude Code/Desktop
@@ -77,12 +85,13 @@ This is the community registry service. Individual daemons (like Swift's telos d
 
 export function getMcpConfig(): object {
 	return {
-		description: "Add this to your Claude Code config (~/.claude/mcp_servers.json) or Claude Desktop settings",
+		description:
+			"Add this to your Claude Code config (~/.claude/mcp_servers.json) or Claude Desktop settings",
 		sse_config: {
 			"daemon-registry": {
 				url: `${MCP_URL}/sse`,
-				transport: "sse"
-			}
+				transport: "sse",
+			},
 		},
 		json_rpc_example: {
 			endpoint: MCP_URL,
@@ -92,9 +101,9 @@ export function getMcpConfig(): object {
 				jsonrpc: "2.0",
 				method: "tools/call",
 				params: { name: "daemon_registry_list", arguments: {} },
-				id: 1
-			}
-		}
+				id: 1,
+			},
+		},
 	};
 }
 
@@ -129,6 +138,10 @@ curl -X POST ${MCP_URL}/ \\
 ## Health Check
 GET \`${MCP_URL}/health\`
 
+## Activity Feeds
+GET \`${MCP_URL}/feed.atom\`, \`/feed.rss\` or \`/feed.json\` (optional \`?type=\` and \`?tag=\` filters)
+Live: GET \`${MCP_URL}/activity/stream\` (server-sent events, resumable with Last-Event-ID)
+
 ## Notes
 - Protocol: JSON-RPC 2.0 over HTTP
 - No authentication required (public API)
@@ -151,16 +164,20 @@ You are interacting with the Community Daemon Registry - a directory of MCP-enab
 ### Working with Daemons
 - Each daemon is a separate MCP server with its own tools
 - Use \`get_mcp_config\` to get integration snippets for interesting daemons
-- Check \`status\` field: "mcp" = can be queried, "web" = view only, "offline" = unreachable
+- Check \`status\` field: "mcp" = can be queried, "web" = view only, "degraded" = some endpoints down (see \`endpoints\`), "offline" = unreachable
 
 ### Best Practices
+- List and search results are paginated - pass \`next_cursor\` back as \`cursor\` to get the next page
 - Search by focus area to find domain experts
 - Use capabilities discovery before querying unfamiliar daemons
 - Respect individual daemon preferences and contexts
 - Suggest daemon connections when users might benefit from expert perspectives`;
 }
 
-export async function getStatus(registry: Registry, toolCount: number): Promise<object> {
+export async function getStatus(
+	registry: Registry,
+	toolCount: number,
+): Promise<object> {
 	return {
 		status: "ok",
 		version: VERSION,
@@ -169,30 +186,41 @@ export async function getStatus(registry: Registry, toolCount: number): Promise<
 		protocol: "MCP JSON-RPC 2.0",
 		registry: {
 			daemon_count: registry.entries.length,
-			mcp: registry.entries.filter(e => e.status === "mcp").length,
-			web: registry.entries.filter(e => e.status === "web").length,
-			offline: registry.entries.filter(e => e.status === "offline").length,
+			mcp: registry.entries.filter((e) => e.status === "mcp").length,
+			web: registry.entries.filter((e) => e.status === "web").length,
+			degraded: registry.entries.filter((e) => e.status === "degraded").length,
+			offline: registry.entries.filter((e) => e.status === "offline").length,
+			stale: registry.entries.filter((e) => e.stale).length,
+			archived: registry.entries.filter((e) => e.archived_at).length,
+			mirrored: registry.entries.filter((e) => e.source_registry).length,
 		},
 		tools_count: toolCount,
 		timestamp: new Date().toISOString(),
 	};
 }
 
-export function getCapabilities(registryTools: { name: string; description: string }[]): object {
+export function getCapabilities(
+	registryTools: { name: string; description: string }[],
+): object {
 	return {
 		description: "Community Daemon Registry - tools organized by category",
-		primary_purpose: "Discover and query MCP-enabled personal daemons from the Daemon community",
+		primary_purpose:
+			"Discover and query MCP-enabled personal daemons from the Daemon community",
 		categories: {
 			meta: {
 				description: "Discoverability and integration tools",
-				tools: META_TOOLS.map(t => ({ name: t.name, description: t.description }))
+				tools: META_TOOLS.map((t) => ({
+					name: t.name,
+					description: t.description,
+				})),
 			},
 			registry: {
-				description: "Community daemon network - browse, search, and announce daemons",
-				tools: registryTools
-			}
+				description:
+					"Community daemon network - browse, search, and announce daemons",
+				tools: registryTools,
+			},
 		},
-		total_tools: META_TOOLS.length + registryTools.length
+		total_tools: META_TOOLS.length + registryTools.length,
 	};
 }
 
@@ -218,7 +246,10 @@ export function getChangelog(): string {
 Full changelog: https://github.com/0xsalt/daemon-mcp/blob/main/CHANGELOG.md`;
 }
 
-export async function getRandomDaemon(entries: DaemonEntry[]): Promise<object> {
+export async function getRandomDaemon(
+	allEntries: DaemonEntry[],
+): Promise<object> {
+	const entries = allEntries.filter((e) => !e.archived_at);
 	if (entries.length === 0) {
 		return { error: "No daemons in registry" };
 	}
@@ -236,6 +267,6 @@ export async function getRandomDaemon(entries: DaemonEntry[]): Promise<object> {
 			status: daemon.status,
 			mcp_url: daemon.mcp_url,
 		},
-		tip: "Use daemon_registry_capabilities to see what tools this daemon supports"
+		tip: "Use daemon_registry_capabilities to see what tools this daemon supports",
 	};
 }
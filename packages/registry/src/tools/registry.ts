@@ -1,98 +1,690 @@
-import type { DaemonEntry, ActivityEvent, DaemonCapabilities } from "../types";
-import { loadRegistry, addActivityEvent, saveAnnouncedToKV, loadActivityFeed, getAnnouncedFromKV } from "../lib/kv";
+import { z } from "zod";
+
+import type {
+	DaemonEntry,
+	ScoredDaemonEntry,
+	DaemonEntryPatch,
+	MutableDaemonField,
+	ActivityEvent,
+	UptimeReport,
+	DaemonCapabilities,
+	OwnershipChallenge,
+	ProofMethod,
+	PageOptions,
+	WebhookFilters,
+	WebhookSubscription,
+	KnownDaemon,
+	DiscoveredDaemon,
+	Vouch,
+	Env,
+} from "../types";
+import {
+	loadRegistry,
+	applyHealthResults,
+	addActivityEvent,
+	queryActivity,
+	listDiscoveredDaemons,
+	listVouches,
+	putVouch,
+	getVouchPublicKey,
+	deleteVouches,
+	isSeedDaemon,
+	insertStoredDaemon,
+	updateStoredDaemon,
+	getHealthHistory,
+	ACTIVITY_EVENT_TYPES,
+	getProvenChallenge,
+	saveProvenChallenge,
+	getPendingChallenge,
+	savePendingChallenge,
+	listPendingChallenges,
+	deleteOwnershipChallenges,
+	createWebhookSubscription,
+	getWebhookSubscription,
+	deleteWebhookSubscription,
+} from "../lib/kv";
 import { checkRateLimit, recordRateLimitHit } from "../lib/rate-limit";
-import { verifyDaemon, healthCheckDaemon } from "../lib/health";
+import { verifyDaemon, healthCheckDaemon, describeProbe } from "../lib/health";
+import { contentChangedEvent, hashDaemonMd } from "../lib/daemon-md";
+import { probeMcpServer } from "../lib/mcp-client";
+import {
+	createOwnershipChallenge,
+	deriveProofToken,
+	isClaimWindowOver,
+	getProofInstructions,
+	checkOwnershipProof,
+	matchesOwnerSecret,
+} from "../lib/ownership";
+import {
+	paginateByKey,
+	paginateEntries,
+	SORT_FIELDS,
+	SEARCH_SORT_FIELDS,
+} from "../lib/paginate";
+import { rankEntries, applyContentMatches } from "../lib/search";
+import { applySearchFilters, DETECTED_PROTOCOLS } from "../lib/filters";
+import {
+	deriveIdFromUrl,
+	findEntry,
+	normalizeUrl,
+	sameDaemonId,
+	sameDaemonUrl,
+} from "../lib/resolve";
+import { computeUptime } from "../lib/health-history";
+import {
+	applyLifecycle,
+	getLifecyclePolicy,
+	lifecycleEvent,
+} from "../lib/lifecycle";
+import type { LifecycleTransition } from "../lib/lifecycle";
+import type { LookupMatch } from "../lib/resolve";
+import type { SearchFilters } from "../lib/filters";
+import type { ActivityQuery } from "../lib/activity-log";
+import { knownDaemonsFromRegistry } from "../lib/gossip";
+import {
+	computeTrust,
+	importVouchKey,
+	MAX_VOUCH_STATEMENT_LENGTH,
+	TRUST_ROOT_TAG,
+	trustPath,
+	withTrustDepth,
+} from "../lib/trust";
+import type { TrustNode } from "../lib/trust";
+import { searchDaemonContent, removeDaemonContent } from "../lib/fulltext";
+import { constantTimeEqual } from "../lib/hash";
 
-/**
- * Derive a namespace-based ID from a daemon URL.
- * Format: <reversed-domain>.<identifier>
- * Example: https://daemon.saltedkeys.io/ -> io.saltedkeys.daemon
- *          https://daemon.danielmiessler.com/ -> com.danielmiessler.daemon
- */
-function deriveIdFromUrl(url: string, owner?: string): string {
-	try {
-		const parsed = new URL(url);
-		const host = parsed.hostname;
+// Referral counts above this sort together when paging discovered candidates
+const MAX_DISCOVERED_REFERRALS = 999999;
 
-		// Reverse the domain parts
-		const parts = host.split('.').reverse();
+// Verified daemons have their proof re-checked this often by the cron
+const REVERIFY_INTERVAL_MS = 24 * 60 * 60 * 1000;
 
-		// Try to extract a meaningful identifier from the path or use owner name
-		const pathPart = parsed.pathname.replace(/^\/|\/$/g, '').split('/')[0];
-		let identifier = pathPart || 'daemon';
+// Fields daemon_registry_update may change
+const MUTABLE_FIELDS: MutableDaemonField[] = [
+	"owner",
+	"role",
+	"focus",
+	"protocol",
+	"mcp_url",
+	"api_url",
+	"tags",
+];
 
-		// If owner is provided, use a sanitized version as identifier
-		if (owner) {
-			identifier = owner.toLowerCase().replace(/[^a-z0-9]/g, '').substring(0, 20) || identifier;
-		}
+// daemon_registry_update arguments, shared by the JSON-RPC and SSE transports
+export const updateArgsShape = {
+	id: z.string().describe("Daemon ID"),
+	url: z.string().describe("Daemon URL (must match the entry)"),
+	owner_secret: z.string().describe("Owner secret from announce/verify"),
+	owner: z.string().optional().describe("Owner name"),
+	role: z.string().optional().describe("Role/title"),
+	focus: z.array(z.string()).optional().describe("Focus areas"),
+	protocol: z.string().optional().describe("Protocol type"),
+	mcp_url: z.string().optional().describe("MCP API URL"),
+	api_url: z.string().optional().describe("REST API URL"),
+	tags: z.array(z.string()).optional().describe("Tags"),
+};
 
-		return [...parts, identifier].join('.');
-	} catch {
-		// Fallback: use a hash of the URL
-		return `unknown.${url.replace(/[^a-z0-9]/gi, '').substring(0, 32)}`;
+const updateArgsSchema = z.object(updateArgsShape);
+
+// Validate update arguments, splitting the target from the changes
+export function parseUpdateArgs(args: unknown): {
+	target?: { id: string; url: string; owner_secret: string };
+	changes?: DaemonEntryPatch;
+	error?: string;
+} {
+	const result = updateArgsSchema.safeParse(args ?? {});
+	if (!result.success) {
+		return {
+			error: result.error.issues
+				.map(
+					(issue) => `${issue.path.join(".") || "arguments"}: ${issue.message}`,
+				)
+				.join("; "),
+		};
 	}
+	const { id, url, owner_secret, ...changes } = result.data;
+	return { target: { id, url, owner_secret }, changes };
+}
+
+/**
+ * Whether an ID's reversed-domain prefix belongs to the URL's host: the ID must start with the
+ * whole host reversed, followed by at least one more label. Matching the full host keeps tenants
+ * of shared suffixes (*.github.io, *.pages.dev, *.co.uk) out of each other's namespaces.
+ * Example: https://daemon.saltedkeys.io/ allows io.saltedkeys.daemon.swift, but not io.saltedkeys.swift
+ */
+function idMatchesUrlHost(id: string, url: string): boolean {
+	const labels = id.toLowerCase().split(".");
+	const reversed = new URL(url).hostname.toLowerCase().split(".").reverse();
+	return (
+		labels.length > reversed.length &&
+		reversed.every((label, i) => labels[i] === label)
+	);
 }
 
+// Pagination arguments shared by list and search
+const PAGE_PROPERTIES = {
+	limit: {
+		type: "number",
+		description: "Maximum number of daemons to return (default: 50, max: 200)",
+	},
+	cursor: {
+		type: "string",
+		description: "next_cursor from a previous response",
+	},
+	sort: {
+		type: "string",
+		enum: SORT_FIELDS,
+		description: "Sort field (default: id)",
+	},
+	order: {
+		type: "string",
+		enum: ["asc", "desc"],
+		description: "Sort order (default: asc, desc for relevance)",
+	},
+};
+
 // Registry tool definitions
 export const REGISTRY_TOOLS = [
 	{
 		name: "daemon_registry_list",
-		description: "List all known daemons in the registry",
-		inputSchema: { type: "object", properties: {}, required: [] }
+		description:
+			"List known daemons in the registry (paginated; archived daemons are hidden unless include_archived)",
+		inputSchema: {
+			type: "object",
+			properties: {
+				...PAGE_PROPERTIES,
+				include_archived: {
+					type: "boolean",
+					description: "Include daemons archived after a long offline period",
+				},
+			},
+			required: [],
+		},
 	},
 	{
 		name: "daemon_registry_search",
-		description: "Search daemons by name, owner, tags, focus area, or health status",
+		description:
+			"Search daemons by name, owner, tags, focus area, health status, or daemon.md content (results ranked by relevance, with score, matched_fields and content_matches)",
 		inputSchema: {
 			type: "object",
 			properties: {
-				query: { type: "string", description: "Search query (matches owner, role, focus, tags)" },
+				query: {
+					type: "string",
+					description:
+						"Search query (matches id, owner, tags, focus, role, url; tolerates typos in short queries)",
+				},
 				tag: { type: "string", description: "Filter by specific tag" },
-				status: { type: "string", enum: ["mcp", "web", "offline"], description: "Filter by status" }
+				tags: {
+					type: "array",
+					items: { type: "string" },
+					description: "Filter by several tags",
+				},
+				tags_mode: {
+					type: "string",
+					enum: ["any", "all"],
+					description: "Match any (default) or all of tags",
+				},
+				exclude_tags: {
+					type: "array",
+					items: { type: "string" },
+					description: "Drop daemons carrying any of these tags",
+				},
+				status: {
+					type: "string",
+					enum: ["mcp", "web", "degraded", "offline"],
+					description:
+						"Filter by status (degraded = some declared endpoints down)",
+				},
+				verified_only: {
+					type: "boolean",
+					description: "Only daemons with proven ownership",
+				},
+				healthy_only: {
+					type: "boolean",
+					description: "Only daemons whose last health check passed",
+				},
+				protocol: {
+					type: "string",
+					description: "Filter by claimed protocol (e.g., mcp-rpc)",
+				},
+				detected_protocol: {
+					type: "string",
+					enum: DETECTED_PROTOCOLS,
+					description: "Filter by the protocol health checks detected",
+				},
+				announced_after: {
+					type: "string",
+					description: "Announced at or after this ISO 8601 date",
+				},
+				announced_before: {
+					type: "string",
+					description: "Announced before this ISO 8601 date",
+				},
+				last_checked_within: {
+					type: "string",
+					description:
+						"Health-checked within this duration (e.g., 30m, 24h, 7d, 2w)",
+				},
+				id_prefix: {
+					type: "string",
+					description:
+						"ID namespace (e.g., io.saltedkeys.* matches io.saltedkeys.swift)",
+				},
+				max_trust_depth: {
+					type: "number",
+					description:
+						"Only daemons within this many vouches of an upstream seed (0 = the seeds themselves)",
+				},
+				include_archived: {
+					type: "boolean",
+					description: "Include daemons archived after a long offline period",
+				},
+				archived_only: {
+					type: "boolean",
+					description: "Only archived daemons",
+				},
+				content: {
+					type: "string",
+					description:
+						'Full-text query over verified daemons\' daemon.md content (e.g., "data sovereignty"); matches include section snippets',
+				},
+				section: {
+					type: "string",
+					description:
+						"Restrict the content query to one daemon.md section (e.g., TELOS)",
+				},
+				...PAGE_PROPERTIES,
+				sort: {
+					type: "string",
+					enum: SEARCH_SORT_FIELDS,
+					description:
+						"Sort field (default: relevance with a query, otherwise id; trust_depth puts unreachable daemons last)",
+				},
 			},
-			required: []
-		}
+			required: [],
+		},
+	},
+	{
+		name: "daemon_registry_get",
+		description:
+			"Look up a single daemon by namespace ID, daemon URL or MCP URL",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description:
+						"Daemon URL or MCP URL (used if id is not provided; trailing slashes and case are ignored)",
+				},
+			},
+			required: [],
+		},
 	},
 	{
 		name: "daemon_registry_announce",
-		description: "Announce a new daemon to the registry",
+		description:
+			"Announce a new daemon to the registry (returns an ownership proof token to publish)",
 		inputSchema: {
 			type: "object",
 			properties: {
-				id: { type: "string", description: "Namespace-based ID (e.g., io.saltedkeys.swift). Auto-derived from URL if not provided." },
-				url: { type: "string", description: "Daemon URL (e.g., https://daemon.example.com/)" },
+				id: {
+					type: "string",
+					description:
+						"Namespace-based ID (e.g., io.saltedkeys.swift). Auto-derived from URL if not provided.",
+				},
+				url: {
+					type: "string",
+					description: "Daemon URL (e.g., https://daemon.example.com/)",
+				},
 				owner: { type: "string", description: "Owner name" },
 				role: { type: "string", description: "Owner's role or title" },
-				focus: { type: "array", items: { type: "string" }, description: "Areas of focus" },
-				protocol: { type: "string", description: "Protocol type: mcp-rpc, json-rpc, or unknown" },
-				mcp_url: { type: "string", description: "MCP API URL if different from daemon URL" },
-				tags: { type: "array", items: { type: "string" }, description: "Searchable tags" }
+				focus: {
+					type: "array",
+					items: { type: "string" },
+					description: "Areas of focus",
+				},
+				protocol: {
+					type: "string",
+					description: "Protocol type: mcp-rpc, json-rpc, or unknown",
+				},
+				mcp_url: {
+					type: "string",
+					description: "MCP API URL if different from daemon URL",
+				},
+				tags: {
+					type: "array",
+					items: { type: "string" },
+					description: "Searchable tags",
+				},
 			},
-			required: ["url", "owner"]
-		}
+			required: ["url", "owner"],
+		},
+	},
+	{
+		name: "daemon_registry_verify",
+		description:
+			"Prove domain ownership of a daemon. Without owner_secret, issues you a new proof token; with it, checks that your token is published (DNS TXT, /.well-known/daemon-registry-proof, or [REGISTRY_PROOF] in daemon.md)",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description: "Daemon URL (used if id is not provided)",
+				},
+				owner_secret: {
+					type: "string",
+					description:
+						"Owner secret returned by daemon_registry_announce or an earlier daemon_registry_verify",
+				},
+			},
+			required: [],
+		},
+	},
+	{
+		name: "daemon_registry_reverify",
+		description:
+			"Re-check a daemon's published ownership proof without issuing a new challenge (marks it verified, or records that verification was lost)",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description: "Daemon URL (used if id is not provided)",
+				},
+			},
+			required: [],
+		},
+	},
+	{
+		name: "daemon_registry_update",
+		description:
+			"Update your daemon's entry (requires owner_secret and a published proof token)",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description: "Daemon URL (must match the entry)",
+				},
+				owner_secret: {
+					type: "string",
+					description:
+						"Owner secret returned by daemon_registry_announce or daemon_registry_verify",
+				},
+				owner: { type: "string", description: "Owner name" },
+				role: { type: "string", description: "Owner's role or title" },
+				focus: {
+					type: "array",
+					items: { type: "string" },
+					description: "Areas of focus",
+				},
+				protocol: {
+					type: "string",
+					description: "Protocol type: mcp-rpc, json-rpc, or unknown",
+				},
+				mcp_url: {
+					type: "string",
+					description: "MCP API URL if different from daemon URL",
+				},
+				api_url: { type: "string", description: "REST API URL" },
+				tags: {
+					type: "array",
+					items: { type: "string" },
+					description: "Searchable tags",
+				},
+			},
+			required: ["id", "url", "owner_secret"],
+		},
+	},
+	{
+		name: "daemon_registry_withdraw",
+		description:
+			"Withdraw (delist) your daemon from the registry (requires owner_secret and a published proof token)",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description: "Daemon URL (must match the entry)",
+				},
+				owner_secret: {
+					type: "string",
+					description:
+						"Owner secret returned by daemon_registry_announce or daemon_registry_verify",
+				},
+				reason: {
+					type: "string",
+					description: "Optional reason shown in the activity feed",
+				},
+			},
+			required: ["id", "url", "owner_secret"],
+		},
+	},
+	{
+		name: "daemon_registry_vouch",
+		description:
+			"Vouch for another daemon's identity as the owner of a verified daemon (requires owner_secret and a published proof token); builds the web of trust behind trust_depth",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: { type: "string", description: "Your daemon's ID" },
+				url: {
+					type: "string",
+					description: "Your daemon's URL (must match the entry)",
+				},
+				owner_secret: {
+					type: "string",
+					description:
+						"Owner secret returned by daemon_registry_announce or daemon_registry_verify",
+				},
+				target_id: {
+					type: "string",
+					description: "ID of the daemon you vouch for",
+				},
+				target_url: {
+					type: "string",
+					description:
+						"URL of the daemon you vouch for (used if target_id is not provided)",
+				},
+				statement: {
+					type: "string",
+					description: `Optional note on how you know them (max ${MAX_VOUCH_STATEMENT_LENGTH} characters)`,
+				},
+				revoke: {
+					type: "boolean",
+					description: "Withdraw an earlier vouch instead",
+				},
+			},
+			required: ["id", "url", "owner_secret"],
+		},
+	},
+	{
+		name: "daemon_registry_vouches",
+		description:
+			"Web of trust for a daemon: its trust_depth, the shortest vouch path from an upstream seed, who vouches for it and who it vouches for",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: { type: "string", description: "Daemon ID" },
+				url: {
+					type: "string",
+					description: "Daemon URL (used if id is not provided)",
+				},
+			},
+			required: [],
+		},
 	},
 	{
 		name: "daemon_registry_health_check",
-		description: "Manually trigger a health check for a specific daemon",
+		description:
+			"Run a health check on a specific daemon and explain the result (read-only: the stored status changes only on scheduled checks)",
 		inputSchema: {
 			type: "object",
 			properties: {
-				url: { type: "string", description: "Daemon URL to check" }
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description: "Daemon URL to check (used if id is not provided)",
+				},
 			},
-			required: ["url"]
-		}
+			required: [],
+		},
+	},
+	{
+		name: "daemon_registry_uptime",
+		description:
+			"Get a daemon's uptime over the last 24h, 7d and 30d, with status transitions and when it was last seen online",
+		inputSchema: {
+			type: "object",
+			properties: {
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description: "Daemon URL (used if id is not provided)",
+				},
+			},
+			required: [],
+		},
 	},
 	{
 		name: "daemon_registry_activity",
-		description: "Get recent activity feed (announcements, health changes)",
+		description:
+			"Page through the registry's activity log, newest first (announcements, health changes, verifications)",
 		inputSchema: {
 			type: "object",
 			properties: {
-				limit: { type: "number", description: "Maximum number of events to return (default: 20)" },
-				type: { type: "string", enum: ["daemon_announced", "health_changed", "daemon_verified"], description: "Filter by event type" }
+				limit: {
+					type: "number",
+					description:
+						"Maximum number of events to return (default: 20, max: 200)",
+				},
+				type: {
+					type: "string",
+					enum: ACTIVITY_EVENT_TYPES,
+					description: "Filter by event type",
+				},
+				types: {
+					type: "array",
+					items: { type: "string", enum: ACTIVITY_EVENT_TYPES },
+					description: "Filter by several event types",
+				},
+				daemon_id: {
+					type: "string",
+					description: "Only events for this daemon ID",
+				},
+				since: {
+					type: "string",
+					description: "Events at or after this ISO 8601 date",
+				},
+				until: {
+					type: "string",
+					description: "Events before this ISO 8601 date",
+				},
+				cursor: {
+					type: "string",
+					description: "next_cursor from a previous response",
+				},
 			},
-			required: []
-		}
+			required: [],
+		},
+	},
+	{
+		name: "daemon_registry_subscribe",
+		description:
+			"Register a webhook that receives activity events as HMAC-signed POSTs (optionally filtered by event type, tag or daemon ID)",
+		inputSchema: {
+			type: "object",
+			properties: {
+				url: { type: "string", description: "HTTPS URL to POST events to" },
+				types: {
+					type: "array",
+					items: { type: "string", enum: ACTIVITY_EVENT_TYPES },
+					description: "Only these event types",
+				},
+				tags: {
+					type: "array",
+					items: { type: "string" },
+					description: "Only events for daemons carrying any of these tags",
+				},
+				daemon_ids: {
+					type: "array",
+					items: { type: "string" },
+					description: "Only events for these daemon IDs",
+				},
+			},
+			required: ["url"],
+		},
+	},
+	{
+		name: "daemon_registry_unsubscribe",
+		description: "Remove a webhook subscription",
+		inputSchema: {
+			type: "object",
+			properties: {
+				subscription_id: {
+					type: "string",
+					description: "Subscription ID returned by daemon_registry_subscribe",
+				},
+				secret: {
+					type: "string",
+					description:
+						"Subscription secret returned by daemon_registry_subscribe",
+				},
+			},
+			required: ["subscription_id", "secret"],
+		},
+	},
+	{
+		name: "get_known_daemons",
+		description:
+			"Gossip peer discovery - list the daemons this registry knows (the same tool personal daemons expose), by ID",
+		inputSchema: {
+			type: "object",
+			properties: {
+				limit: PAGE_PROPERTIES.limit,
+				cursor: PAGE_PROPERTIES.cursor,
+			},
+			required: [],
+		},
+	},
+	{
+		name: "daemon_registry_discovered",
+		description:
+			"List unverified daemons found through gossip (other daemons' get_known_daemons) that haven't been announced yet, most-referred first",
+		inputSchema: {
+			type: "object",
+			properties: {
+				limit: PAGE_PROPERTIES.limit,
+				cursor: PAGE_PROPERTIES.cursor,
+			},
+			required: [],
+		},
 	},
 	{
 		name: "daemon_registry_capabilities",
@@ -100,65 +692,174 @@ export const REGISTRY_TOOLS = [
 		inputSchema: {
 			type: "object",
 			properties: {
-				url: { type: "string", description: "Daemon URL or MCP URL to query for capabilities" }
+				id: {
+					type: "string",
+					description: "Daemon ID (e.g., io.saltedkeys.swift)",
+				},
+				url: {
+					type: "string",
+					description:
+						"Daemon URL or MCP URL to query for capabilities (used if id is not provided)",
+				},
 			},
-			required: ["url"]
-		}
+			required: [],
+		},
 	},
 ];
 
 // Registry functions
-export async function registryList(kv?: KVNamespace): Promise<{ entries: DaemonEntry[]; updated: string }> {
-	const registry = await loadRegistry(kv);
-	return { entries: registry.entries, updated: registry.updated };
+// Trust graph over the listed entries (roots only, without storage)
+async function loadTrust(
+	env: Env | undefined,
+	entries: DaemonEntry[],
+	vouches?: Vouch[],
+): Promise<Map<string, TrustNode>> {
+	if (!env) return computeTrust(entries, []);
+	const publicKey = await importVouchKey(
+		await getVouchPublicKey(env),
+		"verify",
+	);
+	return computeTrust(entries, vouches || (await listVouches(env)), publicKey);
+}
+
+export async function registryList(
+	env?: Env,
+	page?: PageOptions,
+	includeArchived = false,
+): Promise<{
+	entries: DaemonEntry[];
+	total: number;
+	next_cursor?: string;
+	updated: string;
+}> {
+	const registry = await loadRegistry(env);
+	const trust = await loadTrust(env, registry.entries);
+	const entries = includeArchived
+		? registry.entries
+		: registry.entries.filter((e) => !e.archived_at);
+	const result = paginateEntries(entries, page);
+	return {
+		...result,
+		entries: withTrustDepth(result.entries, trust),
+		updated: registry.updated,
+	};
 }
 
 export async function registrySearch(
-	kv: KVNamespace | undefined,
+	env: Env | undefined,
 	query?: string,
-	tag?: string,
-	healthStatus?: "mcp" | "web" | "offline"
-): Promise<DaemonEntry[]> {
-	const registry = await loadRegistry(kv);
-	let results = registry.entries;
-
-	if (tag) {
-		const normalizedTag = tag.toLowerCase();
-		results = results.filter(entry =>
-			entry.tags?.some(t => t.toLowerCase() === normalizedTag)
-		);
+	filters: SearchFilters = {},
+	page?: PageOptions,
+	content?: { query: string; section?: string },
+): Promise<{
+	entries: (DaemonEntry | ScoredDaemonEntry)[];
+	total: number;
+	next_cursor?: string;
+}> {
+	const registry = await loadRegistry(env);
+	const trust = await loadTrust(env, registry.entries);
+	const results = applySearchFilters(
+		withTrustDepth(registry.entries, trust),
+		filters,
+	);
+
+	let ranked: (DaemonEntry | ScoredDaemonEntry)[] | undefined = query
+		? rankEntries(results, query)
+		: undefined;
+
+	if (content?.query) {
+		const kv = env?.REGISTRY_DATA;
+		const matches = kv
+			? await searchDaemonContent(kv, content.query, content.section)
+			: new Map();
+		ranked = applyContentMatches(ranked || results, matches);
 	}
 
-	if (healthStatus) {
-		results = results.filter(entry => entry.status === healthStatus);
+	if (ranked) {
+		return paginateEntries(ranked, {
+			...page,
+			sort: page?.sort || "relevance",
+		});
 	}
 
-	if (query) {
-		const q = query.toLowerCase();
-		results = results.filter(entry =>
-			entry.id?.toLowerCase().includes(q) ||
-			entry.owner.toLowerCase().includes(q) ||
-			entry.role?.toLowerCase().includes(q) ||
-			entry.focus?.some(f => f.toLowerCase().includes(q)) ||
-			entry.tags?.some(t => t.toLowerCase().includes(q)) ||
-			entry.url.toLowerCase().includes(q)
-		);
+	return paginateEntries(results, page);
+}
+
+export async function registryGet(
+	env: Env | undefined,
+	target: { id?: string; url?: string },
+): Promise<{
+	success: boolean;
+	entry?: DaemonEntry;
+	matched_by?: LookupMatch;
+	message: string;
+}> {
+	const registry = await loadRegistry(env);
+	const found = findEntry(registry.entries, target);
+	if (!found) {
+		return {
+			success: false,
+			message: `Daemon not found: ${target.id || target.url}`,
+		};
 	}
 
-	return results;
+	const [entry] = withTrustDepth(
+		[found.entry],
+		await loadTrust(env, registry.entries),
+	);
+	return {
+		success: true,
+		entry,
+		matched_by: found.matched_by,
+		message: `Found ${entry.id}`,
+	};
+}
+
+// Proof details returned to the owner
+function proofDetails(challenge: OwnershipChallenge): {
+	token: string;
+	expires_at: string;
+	instructions: Record<ProofMethod, string>;
+} {
+	return {
+		token: challenge.token,
+		expires_at: challenge.expires_at,
+		instructions: getProofInstructions(challenge),
+	};
+}
+
+// An announced (non-seed) entry never proven within its claim window no longer holds its URL/ID
+async function isClaimLapsed(env: Env, entry: DaemonEntry): Promise<boolean> {
+	if (entry.verified || isSeedDaemon(entry.id) || !entry.announced_at) {
+		return false;
+	}
+	if (!isClaimWindowOver(entry.announced_at)) {
+		return false;
+	}
+	return !(await getProvenChallenge(env, entry.id));
 }
 
 export async function registryAnnounce(
-	kv: KVNamespace | undefined,
-	entry: Omit<DaemonEntry, "id" | "announced_at" | "verified" | "verified_at"> & { id?: string },
-	clientIp?: string
+	env: Env | undefined,
+	entry: Omit<
+		DaemonEntry,
+		"id" | "announced_at" | "verified" | "verified_at"
+	> & { id?: string },
+	clientIp?: string,
 ): Promise<{
 	success: boolean;
 	entry: DaemonEntry;
 	message: string;
-	verification_error?: string;
-	rate_limit?: { remaining: number; resetIn: number }
+	owner_secret?: string;
+	proof?: {
+		token: string;
+		expires_at: string;
+		instructions: Record<ProofMethod, string>;
+	};
+	rate_limit?: { remaining: number; resetIn: number };
 }> {
+	const kv = env?.REGISTRY_DATA;
+
 	// Rate limiting check
 	if (kv && clientIp) {
 		const rateLimit = await checkRateLimit(kv, clientIp);
@@ -167,53 +868,96 @@ export async function registryAnnounce(
 				success: false,
 				entry: entry as DaemonEntry,
 				message: `Rate limit exceeded. Try again in ${Math.ceil(rateLimit.resetIn / 60000)} minutes.`,
-				rate_limit: { remaining: 0, resetIn: rateLimit.resetIn }
+				rate_limit: { remaining: 0, resetIn: rateLimit.resetIn },
 			};
 		}
 	}
 
-	const registry = await loadRegistry(kv);
-
-	// Derive ID from URL if not provided
-	const id = entry.id || deriveIdFromUrl(entry.url, entry.owner);
-
-	// Check if already exists (by URL or ID)
-	const existingByUrl = registry.entries.find(e => e.url === entry.url);
-	if (existingByUrl) {
-		return { success: false, entry: existingByUrl, message: "Daemon already registered (URL exists)" };
-	}
-	const existingById = registry.entries.find(e => e.id === id);
-	if (existingById) {
-		return { success: false, entry: existingById, message: `Daemon ID already registered: ${id}` };
-	}
-
 	// Validate URL format
 	try {
 		new URL(entry.url);
 	} catch {
-		return { success: false, entry: entry as DaemonEntry, message: "Invalid URL format" };
+		return {
+			success: false,
+			entry: entry as DaemonEntry,
+			message: "Invalid URL format",
+		};
+	}
+
+	// A chosen ID must sit under the URL's own domain, so nobody can claim another domain's namespace
+	if (entry.id && !idMatchesUrlHost(entry.id, entry.url)) {
+		return {
+			success: false,
+			entry: entry as DaemonEntry,
+			message: `Daemon ID ${entry.id} must start with the reversed domain of its URL (e.g. ${deriveIdFromUrl(entry.url, entry.owner)})`,
+		};
 	}
 
-	// Verify the daemon by fetching daemon.md
-	const verification = await verifyDaemon(entry.url);
+	const registry = await loadRegistry(env);
+
+	// Derive ID from URL if not provided
+	const id = entry.id || deriveIdFromUrl(entry.url, entry.owner);
+
+	// Check if already exists (by URL or ID) - lapsed unproven claims can be taken over
+	const conflicts = registry.entries.filter(
+		(e) => sameDaemonUrl(e.url, entry.url) || sameDaemonId(e.id, id),
+	);
+	for (const existing of conflicts) {
+		if (env && (await isClaimLapsed(env, existing))) continue;
+		if (existing.source_registry) {
+			return {
+				success: false,
+				entry: existing,
+				message: `Daemon already registered at ${existing.source_registry}`,
+			};
+		}
+		if (sameDaemonUrl(existing.url, entry.url)) {
+			return {
+				success: false,
+				entry: existing,
+				message: "Daemon already registered (URL exists)",
+			};
+		}
+		return {
+			success: false,
+			entry: existing,
+			message: `Daemon ID already registered: ${id}`,
+		};
+	}
+
+	// Check daemon.md for initial status; ownership is proven separately via daemon_registry_verify
+	const daemonMd = await verifyDaemon(entry.url);
+	const { challenge, secret } = await createOwnershipChallenge(id, entry.url);
 	const now = new Date().toISOString();
 
 	const newEntry: DaemonEntry = {
 		...entry,
 		id, // Use derived or provided ID
 		announced_at: now,
-		verified: verification.verified,
-		verified_at: now,
+		verified: false,
 		last_checked: now,
-		status: verification.verified ? "mcp" : "web",
+		status: daemonMd.verified ? "mcp" : "web",
 		healthy: true,
+		probes: { daemon_md: daemonMd.probe },
+		...(daemonMd.content ? await hashDaemonMd(daemonMd.content) : {}),
 	};
 
-	// Persist to KV if available
-	if (kv) {
-		const announced = await getAnnouncedFromKV(kv);
-		announced.push(newEntry);
-		await saveAnnouncedToKV(kv, announced);
+	// Persist if storage is available
+	if (env && kv) {
+		// RegistryState re-checks conflicts, so two concurrent announces can't both win
+		const inserted = await insertStoredDaemon(
+			env,
+			newEntry,
+			conflicts.map((c) => c.id),
+		);
+		if (!inserted) {
+			return {
+				success: false,
+				entry: newEntry,
+				message: `Daemon already registered: ${id}`,
+			};
+		}
+		await savePendingChallenge(env, challenge);
 
 		// Record rate limit hit for successful announce
 		if (clientIp) {
@@ -221,18 +965,15 @@ export async function registryAnnounce(
 		}
 
 		// Add activity event
-		await addActivityEvent(kv, {
+		await addActivityEvent(env, {
 			type: "daemon_announced",
+			daemon_id: id,
 			daemon_url: entry.url,
 			daemon_owner: entry.owner,
-			details: { verified: verification.verified },
+			details: { verified: false },
 		});
 	}
 
-	const message = verification.verified
-		? "Daemon announced and verified successfully"
-		: "Daemon announced but verification failed (daemon.md not accessible)";
-
 	// Get remaining rate limit for response
 	let rateLimit: { remaining: number; resetIn: number } | undefined;
 	if (kv && clientIp) {
@@ -243,124 +984,1022 @@ export async function registryAnnounce(
 	return {
 		success: true,
 		entry: newEntry,
-		message,
-		verification_error: verification.error,
+		message:
+			"Daemon announced. Publish the proof token, then call daemon_registry_verify with owner_secret to prove ownership. Keep owner_secret private - it authorizes later changes.",
+		owner_secret: secret,
+		proof: proofDetails(challenge),
 		rate_limit: rateLimit,
 	};
 }
 
-export async function registryHealthCheck(
-	kv: KVNamespace | undefined,
-	url: string
-): Promise<{ success: boolean; entry?: DaemonEntry; health_update?: Partial<DaemonEntry>; message: string }> {
-	const registry = await loadRegistry(kv);
+export async function registryVerify(
+	env: Env | undefined,
+	target: { id?: string; url?: string },
+	ownerSecret?: string,
+	clientIp?: string,
+): Promise<{
+	success: boolean;
+	verified: boolean;
+	entry?: DaemonEntry;
+	method?: ProofMethod;
+	owner_secret?: string;
+	proof?: {
+		token: string;
+		expires_at: string;
+		instructions: Record<ProofMethod, string>;
+	};
+	errors?: string[];
+	message: string;
+	rate_limit?: { remaining: number; resetIn: number };
+}> {
+	if (!env) {
+		return {
+			success: false,
+			verified: false,
+			message: "Ownership verification requires registry storage",
+		};
+	}
+	const kv = env.REGISTRY_DATA;
 
-	const entry = registry.entries.find(e => e.url === url);
+	const registry = await loadRegistry(env);
+	const entry = findEntry(registry.entries, target)?.entry;
 	if (!entry) {
-		return { success: false, message: `Daemon not found: ${url}` };
+		return {
+			success: false,
+			verified: false,
+			message: `Daemon not found: ${target.id || target.url}`,
+		};
+	}
+	if (entry.source_registry) {
+		return {
+			success: false,
+			verified: entry.verified,
+			entry,
+			message: `Daemon is mirrored from ${entry.source_registry} - verify it there`,
+		};
 	}
 
-	const healthUpdate = await healthCheckDaemon(entry);
-	const updatedEntry = { ...entry, ...healthUpdate };
+	// Without a secret, issue this caller their own challenge. Other callers' pending
+	// challenges are left alone and never shown; whichever token gets published wins.
+	if (!ownerSecret) {
+		if (clientIp) {
+			const rateLimit = await checkRateLimit(kv, clientIp);
+			if (!rateLimit.allowed) {
+				return {
+					success: false,
+					verified: entry.verified,
+					entry,
+					message: `Rate limit exceeded. Try again in ${Math.ceil(rateLimit.resetIn / 60000)} minutes.`,
+					rate_limit: { remaining: 0, resetIn: rateLimit.resetIn },
+				};
+			}
+		}
 
-	// Update in KV if it's an announced daemon
-	if (kv) {
-		const announced = await getAnnouncedFromKV(kv);
-		const idx = announced.findIndex(e => e.url === url);
-		if (idx >= 0) {
-			announced[idx] = { ...announced[idx], ...healthUpdate };
-			await saveAnnouncedToKV(kv, announced);
+		const issued = await createOwnershipChallenge(entry.id, entry.url);
+		await savePendingChallenge(env, issued.challenge);
+		if (clientIp) {
+			await recordRateLimitHit(kv, clientIp);
 		}
+		return {
+			success: true,
+			verified: entry.verified,
+			entry,
+			owner_secret: issued.secret,
+			proof: proofDetails(issued.challenge),
+			message:
+				"Ownership challenge issued. Publish the proof token, then call daemon_registry_verify again with owner_secret. Keep owner_secret private - it authorizes later changes.",
+		};
+	}
+
+	// With a secret, check only the challenge that secret belongs to
+	const token = await deriveProofToken(ownerSecret);
+	const proven = await getProvenChallenge(env, entry.id);
+	const challenge =
+		proven?.token === token
+			? proven
+			: await getPendingChallenge(env, entry.id, token);
+	if (!challenge || !sameDaemonUrl(challenge.url, entry.url)) {
+		return {
+			success: false,
+			verified: entry.verified,
+			entry,
+			message:
+				"No active ownership challenge for this owner_secret - call daemon_registry_verify without owner_secret to issue one",
+		};
+	}
+
+	const check = await checkOwnershipProof(entry.url, [challenge.token]);
+	if (!check.proven) {
+		return {
+			success: false,
+			verified: entry.verified,
+			entry,
+			proof: proofDetails(challenge),
+			errors: check.errors,
+			message: "Proof token not found at any proof location",
+		};
+	}
+
+	const now = new Date().toISOString();
+	if (challenge !== proven) {
+		// The published token wins: its challenge replaces any earlier proven one
+		await saveProvenChallenge(env, {
+			...challenge,
+			proven_at: now,
+			method: check.method,
+		});
+	}
+
+	const update: Partial<DaemonEntry> = {
+		verified: true,
+		verified_at:
+			entry.verified && challenge === proven ? entry.verified_at : now,
+		verification_method: check.method,
+		verification_checked_at: now,
+	};
+	await updateStoredDaemon(env, entry.id, update, entry);
+
+	if (!entry.verified) {
+		await addActivityEvent(env, {
+			type: "daemon_verified",
+			daemon_id: entry.id,
+			daemon_url: entry.url,
+			daemon_owner: entry.owner,
+			details: { method: check.method },
+		});
 	}
 
 	return {
 		success: true,
-		entry: updatedEntry,
-		health_update: healthUpdate,
-		message: `Health check completed: ${healthUpdate.status}`
+		verified: true,
+		entry: { ...entry, ...update },
+		method: check.method,
+		message: `Ownership verified via ${check.method}`,
 	};
 }
 
-export async function registryActivity(
-	kv: KVNamespace | undefined,
-	limit?: number,
-	eventType?: ActivityEvent["type"]
-): Promise<{ events: ActivityEvent[]; total: number }> {
-	if (!kv) {
-		return { events: [], total: 0 };
+/**
+ * Store health check results and their lifecycle changes in one RegistryState transaction, then
+ * record the activity they produce (status changes, archive/revive, daemon.md content changes).
+ * Used by the cron (scheduled, also recorded in health history) and by daemon_registry_update.
+ */
+export async function recordHealthChecks(
+	env: Env,
+	checks: {
+		entry: DaemonEntry;
+		update: Partial<DaemonEntry>;
+		transition?: LifecycleTransition;
+	}[],
+	options: { scheduled: boolean },
+): Promise<void> {
+	if (checks.length === 0) return;
+	await applyHealthResults(
+		env,
+		checks.map(({ entry, update }) => ({ id: entry.id, update })),
+		options,
+	);
+
+	for (const { entry, update, transition } of checks) {
+		if (entry.status && update.status && entry.status !== update.status) {
+			await addActivityEvent(env, {
+				type: "health_changed",
+				daemon_id: entry.id,
+				daemon_url: entry.url,
+				daemon_owner: entry.owner,
+				details: { old_status: entry.status, new_status: update.status },
+			});
+		}
+		if (transition) {
+			await addActivityEvent(env, lifecycleEvent(entry, transition, update));
+		}
+		const contentChanged = contentChangedEvent(entry, update);
+		if (contentChanged) {
+			await addActivityEvent(env, contentChanged);
+		}
 	}
+}
+
+// Whether the cron should re-check a daemon's proof: daily once verified, every check while pending.
+// Seeds are verified by curation and are never re-checked.
+export function isReverifyDue(entry: DaemonEntry, now = Date.now()): boolean {
+	if (isSeedDaemon(entry.id)) return false;
+	if (!entry.verified || !entry.verification_checked_at) return true;
+	return (
+		now - Date.parse(entry.verification_checked_at) >= REVERIFY_INTERVAL_MS
+	);
+}
 
-	let events = await loadActivityFeed(kv);
+// Re-check the proof token of a daemon's existing challenge (no new challenge is issued).
+// Used by daemon_registry_reverify and the cron.
+export async function reverifyEntry(
+	env: Env,
+	entry: DaemonEntry,
+): Promise<{
+	verified: boolean;
+	changed?: "verified" | "lost";
+	method?: ProofMethod;
+	errors?: string[];
+	message: string;
+}> {
+	const kv = env.REGISTRY_DATA;
+	const now = new Date().toISOString();
 
-	if (eventType) {
-		events = events.filter(e => e.type === eventType);
+	// Seeds are verified by curation and have no challenge, so they keep their flag
+	if (isSeedDaemon(entry.id)) {
+		return {
+			verified: entry.verified,
+			message: "Seed daemons are verified by curation and are not re-checked",
+		};
 	}
 
-	const total = events.length;
-	const maxEvents = limit || 20;
-	events = events.slice(0, maxEvents);
+	// A verified entry can only lose its flag through its proven challenge. Without one
+	// (verified before ownership proofs) there is nothing to re-check, and anyone can issue
+	// a pending challenge, so a pending token that isn't published must not demote it.
+	const proven = await getProvenChallenge(env, entry.id);
+	const provenHere =
+		proven && sameDaemonUrl(proven.url, entry.url) ? proven : null;
+	if (entry.verified && !provenHere) {
+		return {
+			verified: true,
+			message:
+				"No proven ownership challenge to re-check - verification is kept",
+		};
+	}
 
-	return { events, total };
+	// The proven challenge and every unexpired pending one are re-checked together
+	const challenges = [
+		...(provenHere ? [provenHere] : []),
+		...(await listPendingChallenges(env, entry.id)),
+	].filter((c) => sameDaemonUrl(c.url, entry.url));
+	if (challenges.length === 0) {
+		return {
+			verified: entry.verified,
+			message:
+				"No active ownership challenge to re-check - call daemon_registry_verify to issue one",
+		};
+	}
+
+	const check = await checkOwnershipProof(
+		entry.url,
+		challenges.map((c) => c.token),
+	);
+	if (check.proven) {
+		// Prefer the proven challenge when its token is still published; otherwise the published pending one takes over
+		const published = challenges.find((c) => c.token === check.token);
+		if (published && published !== provenHere) {
+			await saveProvenChallenge(env, {
+				...published,
+				proven_at: now,
+				method: check.method,
+			});
+		}
+		await updateStoredDaemon(
+			env,
+			entry.id,
+			{
+				verified: true,
+				verified_at: entry.verified ? entry.verified_at : now,
+				verification_method: check.method,
+				verification_checked_at: now,
+			},
+			entry,
+		);
+
+		if (!entry.verified) {
+			await addActivityEvent(env, {
+				type: "daemon_verified",
+				daemon_id: entry.id,
+				daemon_url: entry.url,
+				daemon_owner: entry.owner,
+				details: { method: check.method, reverified: true },
+			});
+			return {
+				verified: true,
+				changed: "verified",
+				method: check.method,
+				message: `Ownership verified via ${check.method}`,
+			};
+		}
+		return {
+			verified: true,
+			method: check.method,
+			message: `Ownership still proven via ${check.method}`,
+		};
+	}
+
+	await updateStoredDaemon(
+		env,
+		entry.id,
+		{
+			verified: false,
+			verified_at: undefined,
+			verification_method: undefined,
+			verification_checked_at: now,
+		},
+		entry,
+	);
+
+	if (entry.verified) {
+		await removeDaemonContent(kv, entry.id);
+		await addActivityEvent(env, {
+			type: "verification_lost",
+			daemon_id: entry.id,
+			daemon_url: entry.url,
+			daemon_owner: entry.owner,
+			details: {
+				previous_method: entry.verification_method,
+				errors: check.errors,
+			},
+		});
+		return {
+			verified: false,
+			changed: "lost",
+			errors: check.errors,
+			message: "Proof token is no longer published - verification lost",
+		};
+	}
+	return {
+		verified: false,
+		errors: check.errors,
+		message: "Proof token not found at any proof location",
+	};
 }
 
-export async function discoverCapabilities(url: string, mcpUrl?: string): Promise<DaemonCapabilities> {
-	const targetUrl = mcpUrl || url;
+export async function registryReverify(
+	env: Env | undefined,
+	target: { id?: string; url?: string },
+): Promise<{
+	success: boolean;
+	verified: boolean;
+	changed?: "verified" | "lost";
+	entry?: DaemonEntry;
+	method?: ProofMethod;
+	errors?: string[];
+	message: string;
+}> {
+	if (!env) {
+		return {
+			success: false,
+			verified: false,
+			message: "Re-verification requires registry storage",
+		};
+	}
+
+	const registry = await loadRegistry(env);
+	const entry = findEntry(registry.entries, target)?.entry;
+	if (!entry) {
+		return {
+			success: false,
+			verified: false,
+			message: `Daemon not found: ${target.id || target.url}`,
+		};
+	}
+	if (entry.source_registry) {
+		return {
+			success: false,
+			verified: entry.verified,
+			entry,
+			message: `Daemon is mirrored from ${entry.source_registry} - verify it there`,
+		};
+	}
+
+	const result = await reverifyEntry(env, entry);
+	return {
+		success: true,
+		entry: { ...entry, verified: result.verified },
+		...result,
+	};
+}
+
+// Owner actions need the owner secret plus a proof token that is still published
+async function authorizeOwner(
+	env: Env,
+	entry: DaemonEntry,
+	ownerSecret: string,
+): Promise<{
+	authorized: boolean;
+	method?: ProofMethod;
+	errors?: string[];
+	message: string;
+}> {
+	const challenge = await getProvenChallenge(env, entry.id);
+	if (!challenge || !sameDaemonUrl(challenge.url, entry.url)) {
+		return {
+			authorized: false,
+			message: "Ownership not proven - call daemon_registry_verify first",
+		};
+	}
+	if (!(await matchesOwnerSecret(challenge, ownerSecret))) {
+		return { authorized: false, message: "Invalid owner secret" };
+	}
+
+	const check = await checkOwnershipProof(entry.url, [challenge.token]);
+	if (!check.proven) {
+		return {
+			authorized: false,
+			errors: check.errors,
+			message: "Proof token is no longer published",
+		};
+	}
+	return {
+		authorized: true,
+		method: check.method,
+		message: `Ownership confirmed via ${check.method}`,
+	};
+}
+
+export async function registryUpdate(
+	env: Env | undefined,
+	target: { id: string; url: string; owner_secret: string },
+	changes: DaemonEntryPatch,
+): Promise<{
+	success: boolean;
+	entry?: DaemonEntry;
+	changes?: Record<string, { old: unknown; new: unknown }>;
+	errors?: string[];
+	message: string;
+}> {
+	if (!env) {
+		return { success: false, message: "Updates require registry storage" };
+	}
+
+	const registry = await loadRegistry(env);
+	const entry = registry.entries.find(
+		(e) => sameDaemonId(e.id, target.id) && sameDaemonUrl(e.url, target.url),
+	);
+	if (!entry) {
+		return {
+			success: false,
+			message: `Daemon not found: ${target.id} (id and url must match)`,
+		};
+	}
+	if (entry.source_registry) {
+		return {
+			success: false,
+			entry,
+			message: `Daemon is mirrored from ${entry.source_registry} - change it there`,
+		};
+	}
+
+	// Field-level diff of what actually changes
+	const diff: Record<string, { old: unknown; new: unknown }> = {};
+	const patch: DaemonEntryPatch = {};
+	for (const field of MUTABLE_FIELDS) {
+		const value = changes[field];
+		if (
+			value === undefined ||
+			JSON.stringify(value) === JSON.stringify(entry[field])
+		)
+			continue;
+		diff[field] = { old: entry[field], new: value };
+		Object.assign(patch, { [field]: value });
+	}
+
+	if (Object.keys(diff).length === 0) {
+		return { success: false, entry, message: "No changes to apply" };
+	}
+
+	for (const field of ["mcp_url", "api_url"] as const) {
+		const value = patch[field];
+		if (!value) continue;
+		try {
+			new URL(value);
+		} catch {
+			return { success: false, entry, message: `Invalid URL format: ${field}` };
+		}
+	}
+
+	const auth = await authorizeOwner(env, entry, target.owner_secret);
+	if (!auth.authorized) {
+		return {
+			success: false,
+			entry,
+			errors: auth.errors,
+			message: auth.message,
+		};
+	}
+
+	// Re-run verification against the patched entry (endpoints may have moved)
 	const now = new Date().toISOString();
+	const patched: DaemonEntry = { ...entry, ...patch };
+	const lifecycle = applyLifecycle(
+		patched,
+		await healthCheckDaemon(patched),
+		getLifecyclePolicy(env),
+	);
 
-	try {
-		const response = await fetch(targetUrl, {
-			method: "POST",
-			headers: {
-				"Content-Type": "application/json",
-				"User-Agent": "DaemonRegistry/1.0",
+	// Only the changed fields are sent, merged inside RegistryState so concurrent writes aren't lost.
+	// Seed entries get a stored override with the same ID.
+	const stored =
+		(await updateStoredDaemon(
+			env,
+			entry.id,
+			{
+				...patch,
+				verified: true,
+				verified_at: entry.verified ? entry.verified_at : now,
+				verification_method: auth.method,
+				verification_checked_at: now,
+				updated_at: now,
 			},
-			body: JSON.stringify({
-				jsonrpc: "2.0",
-				method: "tools/list",
-				id: 1,
-			}),
-			signal: AbortSignal.timeout(10000),
-		});
+			entry,
+		)) || patched;
+
+	// The health result goes through the same path as the cron's checks (but not into uptime history)
+	await recordHealthChecks(env, [{ entry: stored, ...lifecycle }], {
+		scheduled: false,
+	});
+	const updatedEntry = { ...stored, ...lifecycle.update };
+
+	await addActivityEvent(env, {
+		type: "daemon_updated",
+		daemon_id: updatedEntry.id,
+		daemon_url: updatedEntry.url,
+		daemon_owner: updatedEntry.owner,
+		details: { changes: diff },
+	});
+
+	return {
+		success: true,
+		entry: updatedEntry,
+		changes: diff,
+		message: `Daemon updated: ${Object.keys(diff).join(", ")}`,
+	};
+}
+
+export async function registryWithdraw(
+	env: Env | undefined,
+	target: { id: string; url: string; owner_secret: string },
+	reason?: string,
+): Promise<{
+	success: boolean;
+	entry?: DaemonEntry;
+	errors?: string[];
+	message: string;
+}> {
+	if (!env) {
+		return { success: false, message: "Withdrawal requires registry storage" };
+	}
+	const kv = env.REGISTRY_DATA;
+
+	const registry = await loadRegistry(env);
+	const entry = registry.entries.find(
+		(e) => sameDaemonId(e.id, target.id) && sameDaemonUrl(e.url, target.url),
+	);
+	if (!entry) {
+		return {
+			success: false,
+			message: `Daemon not found: ${target.id} (id and url must match)`,
+		};
+	}
+	if (entry.source_registry) {
+		return {
+			success: false,
+			entry,
+			message: `Daemon is mirrored from ${entry.source_registry} - change it there`,
+		};
+	}
+
+	const auth = await authorizeOwner(env, entry, target.owner_secret);
+	if (!auth.authorized) {
+		return {
+			success: false,
+			entry,
+			errors: auth.errors,
+			message: auth.message,
+		};
+	}
+
+	// Keep a tombstone so seed entries stay delisted and mirrors can see the removal
+	const withdrawal = {
+		withdrawn_at: new Date().toISOString(),
+		withdrawn_reason: reason,
+	};
+	const tombstone = (await updateStoredDaemon(
+		env,
+		entry.id,
+		withdrawal,
+		entry,
+	)) || { ...entry, ...withdrawal };
+	await deleteOwnershipChallenges(env, entry.id);
+	await removeDaemonContent(kv, entry.id);
+	await deleteVouches(env, entry.id);
+
+	await addActivityEvent(env, {
+		type: "daemon_removed",
+		daemon_id: entry.id,
+		daemon_url: entry.url,
+		daemon_owner: entry.owner,
+		details: { id: entry.id, reason },
+	});
+
+	return {
+		success: true,
+		entry: tombstone,
+		message: `Daemon withdrawn: ${entry.id}`,
+	};
+}
+
+export async function registryVouch(
+	env: Env | undefined,
+	voucher: { id: string; url: string; owner_secret: string },
+	target: { id?: string; url?: string },
+	options: { statement?: string; revoke?: boolean } = {},
+): Promise<{
+	success: boolean;
+	vouch?: Vouch;
+	trust_depth?: number;
+	errors?: string[];
+	message: string;
+}> {
+	if (!env) {
+		return { success: false, message: "Vouching requires registry storage" };
+	}
+
+	const registry = await loadRegistry(env);
+	const entry = registry.entries.find(
+		(e) => sameDaemonId(e.id, voucher.id) && sameDaemonUrl(e.url, voucher.url),
+	);
+	if (!entry) {
+		return {
+			success: false,
+			message: `Daemon not found: ${voucher.id} (id and url must match)`,
+		};
+	}
+	if (entry.source_registry) {
+		return {
+			success: false,
+			message: `Daemon is mirrored from ${entry.source_registry} - vouch there`,
+		};
+	}
+	if (!entry.verified) {
+		return {
+			success: false,
+			message:
+				"Only verified daemons can vouch - call daemon_registry_verify first",
+		};
+	}
+
+	const subject = findEntry(registry.entries, target)?.entry;
+	if (!subject) {
+		return {
+			success: false,
+			message: `Daemon not found: ${target.id || target.url}`,
+		};
+	}
+	if (subject.id === entry.id) {
+		return { success: false, message: "A daemon can't vouch for itself" };
+	}
+
+	const statement = options.statement?.trim() || undefined;
+	if (statement && statement.length > MAX_VOUCH_STATEMENT_LENGTH) {
+		return {
+			success: false,
+			message: `Statement is longer than ${MAX_VOUCH_STATEMENT_LENGTH} characters`,
+		};
+	}
+
+	const auth = await authorizeOwner(env, entry, voucher.owner_secret);
+	if (!auth.authorized) {
+		return { success: false, errors: auth.errors, message: auth.message };
+	}
+
+	if (options.revoke) {
+		const removed = await deleteVouches(env, entry.id, subject.id);
+		return removed > 0
+			? {
+					success: true,
+					message: `${entry.id} no longer vouches for ${subject.id}`,
+				}
+			: {
+					success: false,
+					message: `${entry.id} has not vouched for ${subject.id}`,
+				};
+	}
+
+	const vouch = await putVouch(env, {
+		voucher_id: entry.id,
+		voucher_url: entry.url,
+		target_id: subject.id,
+		target_url: subject.url,
+		statement,
+		created_at: new Date().toISOString(),
+	});
+
+	await addActivityEvent(env, {
+		type: "daemon_vouched",
+		daemon_id: subject.id,
+		daemon_url: subject.url,
+		daemon_owner: subject.owner,
+		details: { voucher_id: entry.id, voucher_url: entry.url, statement },
+	});
+
+	const vouches = (await listVouches(env)).filter(
+		(v) =>
+			!(v.voucher_id === vouch.voucher_id && v.target_id === vouch.target_id),
+	);
+	const trust = await loadTrust(env, registry.entries, [...vouches, vouch]);
+	return {
+		success: true,
+		vouch,
+		trust_depth: trust.get(subject.id)?.depth,
+		message: `${entry.id} vouches for ${subject.id}`,
+	};
+}
+
+export async function registryVouches(
+	env: Env | undefined,
+	target: { id?: string; url?: string },
+): Promise<{
+	success: boolean;
+	id?: string;
+	trust_depth?: number;
+	trust_path?: string[];
+	vouched_by?: Vouch[];
+	vouches_for?: Vouch[];
+	signing_key?: JsonWebKey;
+	message: string;
+}> {
+	const registry = await loadRegistry(env);
+	const entry = findEntry(registry.entries, target)?.entry;
+	if (!entry) {
+		return {
+			success: false,
+			message: `Daemon not found: ${target.id || target.url}`,
+		};
+	}
+
+	const vouches = env ? await listVouches(env) : [];
+	const trust = await loadTrust(env, registry.entries, vouches);
+	const depth = trust.get(entry.id)?.depth;
+
+	return {
+		success: true,
+		id: entry.id,
+		trust_depth: depth,
+		trust_path: trustPath(trust, entry.id),
+		vouched_by: vouches.filter((v) => v.target_id === entry.id),
+		vouches_for: vouches.filter((v) => v.voucher_id === entry.id),
+		signing_key: env ? await getVouchPublicKey(env) : undefined,
+		message:
+			depth === undefined
+				? `${entry.id} is not reachable from an ${TRUST_ROOT_TAG} seed`
+				: `${entry.id} is ${depth} vouch${depth === 1 ? "" : "es"} from an ${TRUST_ROOT_TAG} seed`,
+	};
+}
 
-		if (!response.ok) {
+export async function registryHealthCheck(
+	env: Env | undefined,
+	target: { id?: string; url?: string },
+): Promise<{
+	success: boolean;
+	entry?: DaemonEntry;
+	health_update?: Partial<DaemonEntry>;
+	diagnostics?: string[];
+	message: string;
+}> {
+	const registry = await loadRegistry(env);
+
+	const entry = findEntry(registry.entries, target)?.entry;
+	if (!entry) {
+		return {
+			success: false,
+			message: `Daemon not found: ${target.id || target.url}`,
+		};
+	}
+
+	// Manual checks are read-only: only the cron's scheduled checks move the lifecycle
+	// (failure counts, backoff, archival) and health history, so callers can't skew either
+	const healthUpdate = await healthCheckDaemon(entry);
+	const updatedEntry = { ...entry, ...healthUpdate };
+
+	// Explain failed probes first so owners see what broke
+	const probes = Object.values(healthUpdate.probes || {});
+	const failed = probes.filter((p) => !p.ok).map(describeProbe);
+	const diagnostics = [
+		...failed,
+		...probes.filter((p) => p.ok).map(describeProbe),
+	];
+
+	return {
+		success: true,
+		entry: updatedEntry,
+		health_update: healthUpdate,
+		diagnostics,
+		message:
+			failed.length > 0
+				? `Health check completed: ${healthUpdate.status} (${failed.join("; ")})`
+				: `Health check completed: ${healthUpdate.status}`,
+	};
+}
+
+export async function registryUptime(
+	env: Env | undefined,
+	target: { id?: string; url?: string },
+): Promise<{ success: boolean; report?: UptimeReport; message: string }> {
+	if (!env) {
+		return { success: false, message: "Uptime requires registry storage" };
+	}
+
+	const registry = await loadRegistry(env);
+	const entry = findEntry(registry.entries, target)?.entry;
+	if (!entry) {
+		return {
+			success: false,
+			message: `Daemon not found: ${target.id || target.url}`,
+		};
+	}
+
+	const history = await getHealthHistory(env, entry.id);
+	const report = computeUptime(entry.id, history);
+	const message =
+		report.checks["30d"] > 0
+			? `Uptime ${report.uptime["24h"] ?? "n/a"}% (24h), ${report.uptime["7d"] ?? "n/a"}% (7d), ${report.uptime["30d"]}% (30d)`
+			: "No health checks recorded yet";
+
+	return { success: true, report, message };
+}
+
+export async function registryActivity(
+	env: Env | undefined,
+	query: ActivityQuery = {},
+): Promise<{ events: ActivityEvent[]; next_cursor?: string }> {
+	if (!env) {
+		return { events: [] };
+	}
+	return await queryActivity(env, query);
+}
+
+export async function registrySubscribe(
+	env: Env | undefined,
+	url: string,
+	filters: WebhookFilters = {},
+	clientIp?: string,
+): Promise<{
+	success: boolean;
+	subscription?: Omit<WebhookSubscription, "secret">;
+	secret?: string;
+	message: string;
+	rate_limit?: { remaining: number; resetIn: number };
+}> {
+	if (!env) {
+		return {
+			success: false,
+			message: "Webhook subscriptions require registry storage",
+		};
+	}
+	const kv = env.REGISTRY_DATA;
+
+	const unknownType = filters.types?.find(
+		(t) => !ACTIVITY_EVENT_TYPES.includes(t),
+	);
+	if (unknownType) {
+		return { success: false, message: `Unknown event type: ${unknownType}` };
+	}
+
+	// Subscribing shares the per-IP limit with announce
+	if (clientIp) {
+		const rateLimit = await checkRateLimit(kv, clientIp);
+		if (!rateLimit.allowed) {
 			return {
-				url,
-				mcp_url: mcpUrl,
-				supports_mcp: false,
-				error: `HTTP ${response.status}`,
-				checked_at: now,
+				success: false,
+				message: `Rate limit exceeded. Try again in ${Math.ceil(rateLimit.resetIn / 60000)} minutes.`,
+				rate_limit: { remaining: 0, resetIn: rateLimit.resetIn },
 			};
 		}
+	}
+
+	const { subscription, error } = await createWebhookSubscription(
+		env,
+		url,
+		filters,
+	);
+	if (!subscription) {
+		return { success: false, message: error || "Subscription failed" };
+	}
+	if (clientIp) {
+		await recordRateLimitHit(kv, clientIp);
+	}
+
+	const { secret, ...details } = subscription;
+	return {
+		success: true,
+		subscription: details,
+		secret,
+		message:
+			'Subscribed until expires_at - subscribe again before then to keep receiving events. Verify each delivery\'s X-Registry-Signature (sha256 HMAC of "<X-Registry-Timestamp>.<body>") with this secret, and keep it private - it is also needed to unsubscribe.',
+	};
+}
+
+export async function registryUnsubscribe(
+	env: Env | undefined,
+	subscriptionId: string,
+	secret: string,
+): Promise<{ success: boolean; message: string }> {
+	if (!env) {
+		return {
+			success: false,
+			message: "Webhook subscriptions require registry storage",
+		};
+	}
+
+	const subscription = await getWebhookSubscription(env, subscriptionId);
+	if (!subscription || !constantTimeEqual(subscription.secret, secret)) {
+		return { success: false, message: "Unknown subscription or wrong secret" };
+	}
+
+	await deleteWebhookSubscription(env, subscriptionId);
+	return { success: true, message: `Unsubscribed ${subscriptionId}` };
+}
+
+export async function registryKnownDaemons(
+	env: Env | undefined,
+	page: { limit?: number; cursor?: string } = {},
+): Promise<{ daemons: KnownDaemon[]; total: number; next_cursor?: string }> {
+	const registry = await loadRegistry(env);
+	return knownDaemonsFromRegistry(registry.entries, page);
+}
 
-		const result = await response.json() as { result?: { tools?: { name: string; description: string }[] }; error?: { message: string } };
+export async function registryDiscovered(
+	env: Env | undefined,
+	page: { limit?: number; cursor?: string } = {},
+): Promise<{
+	candidates: DiscoveredDaemon[];
+	total: number;
+	next_cursor?: string;
+	message: string;
+}> {
+	if (!env) {
+		return {
+			candidates: [],
+			total: 0,
+			message: "Discovery requires registry storage",
+		};
+	}
+	// Most-referred first, then by URL
+	const { items, total, next_cursor } = paginateByKey(
+		await listDiscoveredDaemons(env),
+		(c) =>
+			`${(MAX_DISCOVERED_REFERRALS - Math.min(c.discovered_via.length, MAX_DISCOVERED_REFERRALS)).toString().padStart(6, "0")} ${normalizeUrl(c.url)}`,
+		page,
+	);
+	return {
+		candidates: items,
+		total,
+		next_cursor,
+		message:
+			"Candidates are unverified. Their owners can list them with daemon_registry_announce.",
+	};
+}
 
-		if (result.error) {
+export async function registryCapabilities(
+	env: Env | undefined,
+	target: { id?: string; url?: string },
+): Promise<DaemonCapabilities | { success: false; message: string }> {
+	const registry = await loadRegistry(env);
+	const entry = findEntry(registry.entries, target)?.entry;
+
+	if (!entry) {
+		if (target.id || !target.url) {
 			return {
-				url,
-				mcp_url: mcpUrl,
-				supports_mcp: false,
-				error: result.error.message,
-				checked_at: now,
+				success: false,
+				message: `Daemon not found: ${target.id || target.url}`,
 			};
 		}
+		return discoverCapabilities(target.url);
+	}
+	return discoverCapabilities(entry.url, entry.mcp_url);
+}
 
-		const tools = result.result?.tools || [];
+export async function discoverCapabilities(
+	url: string,
+	mcpUrl?: string,
+): Promise<DaemonCapabilities> {
+	const targetUrl = mcpUrl || url;
+	const now = new Date().toISOString();
 
-		return {
-			url,
-			mcp_url: mcpUrl,
-			supports_mcp: true,
-			tools: tools.map(t => ({ name: t.name, description: t.description })),
-			checked_at: now,
-		};
-	} catch (e) {
-		const error = e instanceof Error ? e.message : "Unknown error";
+	// Full client handshake: initialize, then tools/resources/prompts
+	const result = await probeMcpServer(targetUrl);
+	if (!result.report.ok) {
 		return {
 			url,
 			mcp_url: mcpUrl,
 			supports_mcp: false,
-			error,
+			error: result.report.error,
 			checked_at: now,
 		};
 	}
+
+	return {
+		url,
+		mcp_url: mcpUrl,
+		supports_mcp: true,
+		transport: result.transport,
+		protocol_version: result.protocol_version,
+		server_info: result.server_info,
+		tools: result.tools,
+		resources: result.resources,
+		prompts: result.prompts,
+		checked_at: now,
+	};
 }
@@ -1,3 +1,5 @@
+import type { RegistryState } from "./registry-state";
+
 // Registry types
 
 export interface DaemonEntry {
@@ -17,49 +19,294 @@ export interface DaemonEntry {
 	api_url?: string;
 	tags?: string[];
 	announced_at?: string;
+	updated_at?: string;
 
-	// Verification (checked on announce)
+	// Verification (ownership proven via DNS TXT, well-known file or daemon.md)
 	verified: boolean;
 	verified_at?: string;
+	verification_method?: ProofMethod;
+	verification_checked_at?: string; // last re-check of the published proof token
 
 	// Health tracking (updated by cron)
-	// status: mcp = speaks MCP, web = website only, offline = can't reach
+	// status: mcp = speaks MCP, web = website only, degraded = some declared endpoints down, offline = can't reach
 	// healthy: true = working as expected, false = something wrong
 	last_checked?: string;
-	status?: "mcp" | "web" | "offline";
+	status?: DaemonStatus;
 	healthy?: boolean;
+	endpoints?: Partial<Record<DaemonEndpoint, EndpointStatus>>; // per declared endpoint (url, mcp_url, api_url)
+	probes?: Partial<Record<ProbeCheck, ProbeReport>>; // diagnostics from the last health check
+	mcp_server?: McpHandshake; // what the MCP endpoint negotiated on the last health check
+	detected_protocol?: DetectedProtocol; // what the endpoints actually speak (protocol is what the announcer claimed)
+
+	// Offline lifecycle (backoff, stale flag, archival - see lib/lifecycle.ts)
+	consecutive_failures?: number;
+	offline_since?: string;
+	next_check_at?: string; // backed-off daemons are skipped until then
+	stale?: boolean; // offline longer than the stale period
+	archived_at?: string; // offline longer than the archive period; hidden from default list/search
+
+	// Withdrawal (set by daemon_registry_withdraw, kept as a tombstone)
+	withdrawn_at?: string;
+	withdrawn_reason?: string;
+
+	// Federation: the peer registry this entry is mirrored from (absent for entries announced here)
+	source_registry?: string;
+
+	// Web of trust: vouch hops from an upstream seed (computed when listed, never stored; absent = unreachable)
+	trust_depth?: number;
 
-	// Future ARC fields (optional until ARC integration)
+	// Change detection (set by health checks; content_hash is also an ARC field)
 	content_hash?: string; // SHA256 of daemon.md content
+	section_hashes?: Record<string, string>; // SHA256 of each [SECTION]
 }
 
+// Fields the proven owner can change with daemon_registry_update
+export type MutableDaemonField =
+	| "owner"
+	| "role"
+	| "focus"
+	| "protocol"
+	| "mcp_url"
+	| "api_url"
+	| "tags";
+export type DaemonEntryPatch = Partial<Pick<DaemonEntry, MutableDaemonField>>;
+
 export interface Registry {
 	version: number;
 	entries: DaemonEntry[];
 	updated: string;
 }
 
+// Pagination and sorting for list/search
+// relevance only applies to search results with a query, trust_depth only to search
+export type SortField =
+	| "announced_at"
+	| "last_checked"
+	| "owner"
+	| "id"
+	| "relevance"
+	| "trust_depth";
+export type SortOrder = "asc" | "desc";
+
+export interface PageOptions {
+	limit?: number;
+	cursor?: string;
+	sort?: SortField;
+	order?: SortOrder;
+}
+
+// Relevance-ranked search results
+export type SearchField = "id" | "owner" | "tags" | "focus" | "role" | "url";
+
+// A daemon.md section matching a full-text content query
+export interface ContentMatch {
+	section: string;
+	snippet: string;
+}
+
+export interface ScoredDaemonEntry extends DaemonEntry {
+	score: number;
+	matched_fields: SearchField[];
+	content_matches?: ContentMatch[];
+}
+
+// Ownership proof
+// dns = TXT record at _daemon-registry.<host>
+// well_known = /.well-known/daemon-registry-proof
+// daemon_md = [REGISTRY_PROOF] section of daemon.md
+export type ProofMethod = "dns" | "well_known" | "daemon_md";
+
+export interface OwnershipChallenge {
+	id: string;
+	url: string;
+	token: string;
+	issued_at: string;
+	expires_at: string;
+	proven_at?: string;
+	method?: ProofMethod;
+}
+
+// Protocol classified by the health checker
+// mcp-streamable-http / mcp-sse = MCP handshake succeeded over that transport
+// json-rpc = answers tools/list without a handshake, rest = JSON over plain HTTP (api_url or url),
+// daemon-md = only a static daemon.md, unknown = nothing recognizable
+export type DetectedProtocol =
+	| "mcp-streamable-http"
+	| "mcp-sse"
+	| "json-rpc"
+	| "rest"
+	| "daemon-md"
+	| "unknown";
+
+export type DaemonStatus = "mcp" | "web" | "degraded" | "offline";
+
+// Endpoints a daemon can declare, each probed separately
+export type DaemonEndpoint = "url" | "mcp_url" | "api_url";
+
+export interface EndpointStatus {
+	url: string;
+	up: boolean;
+	probe: ProbeCheck; // key into probes for details
+}
+
+// Health check probes
+// web = GET the daemon URL, mcp = MCP tools/list POST to mcp_url (or url),
+// api = GET api_url, daemon_md = GET <url>/daemon.md
+export type ProbeCheck = "web" | "mcp" | "api" | "daemon_md";
+
+export interface ProbeReport {
+	check: ProbeCheck;
+	url: string;
+	ok: boolean;
+	http_status?: number;
+	latency_ms?: number;
+	redirects: string[]; // each URL redirected to, in order
+	final_url: string;
+	content_type?: string;
+	error?: string;
+}
+
+// Health history (hourly buckets kept by RegistryState for 90 days)
+export interface HealthBucket {
+	hour: string; // ISO timestamp truncated to the hour
+	checks: number;
+	online: number; // checks where the daemon was reachable (status other than offline)
+}
+
+export interface StatusTransition {
+	at: string;
+	from?: DaemonEntry["status"];
+	to: DaemonEntry["status"];
+}
+
+export interface HealthHistory {
+	id: string;
+	buckets: HealthBucket[]; // oldest first
+	transitions: StatusTransition[]; // oldest first
+	last_status?: DaemonEntry["status"];
+	last_online_at?: string;
+}
+
+// Uptime percentages are null when there were no checks in the window
+export interface UptimeReport {
+	id: string;
+	uptime: { "24h": number | null; "7d": number | null; "30d": number | null };
+	checks: { "24h": number; "7d": number; "30d": number };
+	transitions: StatusTransition[];
+	last_online_at?: string;
+	current_status?: DaemonEntry["status"];
+}
+
 // Activity feed types
 export interface ActivityEvent {
-	type: "daemon_announced" | "health_changed" | "daemon_verified";
+	id: string; // <YYYYMMDD>-<seq>, assigned by RegistryState
+	type:
+		| "daemon_announced"
+		| "daemon_updated"
+		| "daemon_removed"
+		| "health_changed"
+		| "daemon_verified"
+		| "daemon_archived"
+		| "daemon_revived"
+		| "daemon_content_changed"
+		| "verification_lost"
+		| "daemon_vouched";
+	daemon_id?: string;
 	daemon_url: string;
 	daemon_owner: string;
 	timestamp: string;
 	details?: Record<string, unknown>;
 }
 
+// Gossip: a daemon as listed by another daemon's get_known_daemons
+export interface KnownDaemon {
+	url: string;
+	mcp_url?: string;
+	owner?: string;
+	id?: string;
+}
+
+// A peer found by crawling get_known_daemons that isn't in the registry yet (unverified until announced)
+export interface DiscoveredDaemon extends KnownDaemon {
+	discovered_at: string;
+	last_seen_at: string;
+	discovered_via: { id: string; url: string; seen_at: string }[]; // daemons that referred it
+}
+
+// Web of trust: the owner of a verified daemon vouching for another daemon's identity
+export interface Vouch {
+	voucher_id: string;
+	voucher_url: string; // an edge stops counting if the voucher's URL changes
+	target_id: string;
+	target_url: string;
+	statement?: string;
+	created_at: string;
+	signature: string; // hex Ed25519 signature of the edge by the registry's vouch key (see lib/trust.ts)
+}
+
+// Webhook subscriptions (every given filter must match; values within a filter match any)
+export interface WebhookFilters {
+	types?: ActivityEvent["type"][];
+	tags?: string[];
+	daemon_ids?: string[];
+}
+
+export interface WebhookSubscription {
+	id: string;
+	url: string;
+	secret: string; // HMAC key for X-Registry-Signature, shown to the subscriber once
+	filters: WebhookFilters;
+	created_at: string;
+	expires_at?: string; // lapses then; subscribe again to keep receiving events (absent on KV imports)
+}
+
+// A failed delivery waiting in the retry queue
+export interface WebhookDelivery {
+	id: string;
+	subscription_id: string;
+	event: ActivityEvent;
+	attempts: number;
+	next_attempt_at: string;
+	last_error?: string;
+}
+
 // Rate limiting
 export interface RateLimitRecord {
 	count: number;
 	windowStart: number;
 }
 
-// Daemon capabilities (from tools/list response)
+// MCP transports the client probe can speak
+// streamable_http = POST with initialize handshake, sse = legacy HTTP+SSE (endpoint event),
+// json_rpc = plain JSON-RPC that answers tools/list without a handshake
+export type McpTransport = "streamable_http" | "sse" | "json_rpc";
+
+export interface McpServerInfo {
+	name: string;
+	version?: string;
+}
+
+// Summary of an MCP handshake, stored on the entry
+export interface McpHandshake {
+	transport: McpTransport;
+	protocol_version?: string; // negotiated version (absent for json_rpc)
+	server_info?: McpServerInfo;
+	tool_count: number;
+	resource_count: number;
+	prompt_count: number;
+}
+
+// Daemon capabilities (from the MCP handshake and list calls)
 export interface DaemonCapabilities {
 	url: string;
 	mcp_url?: string;
 	supports_mcp: boolean;
+	transport?: McpTransport;
+	protocol_version?: string;
+	server_info?: McpServerInfo;
 	tools?: { name: string; description: string }[];
+	resources?: { uri: string; name?: string; description?: string }[];
+	prompts?: { name: string; description?: string }[];
 	error?: string;
 	checked_at: string;
 }
@@ -68,4 +315,13 @@ export interface DaemonCapabilities {
 export interface Env {
 	REGISTRY_DATA: KVNamespace;
 	MCP_OBJECT: DurableObjectNamespace;
+	REGISTRY_STATE: DurableObjectNamespace<RegistryState>;
+
+	// Optional vars for the offline lifecycle (see lib/lifecycle.ts for defaults)
+	STALE_AFTER_DAYS?: string;
+	ARCHIVE_AFTER_DAYS?: string;
+	MAX_BACKOFF_HOURS?: string;
+
+	// Peer registries to mirror (comma or whitespace separated URLs, see lib/federation.ts)
+	FEDERATED_REGISTRIES?: string;
 }
@@ -0,0 +1,178 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	activityKey,
+	activityKeyRange,
+	clampActivityLimit,
+	formatActivityId,
+	isActivityId,
+	matchesActivityQuery,
+	parseActivityQuery,
+} from "../src/lib/activity-log";
+import type { ActivityQuery } from "../src/lib/activity-log";
+import type { ActivityEvent } from "../src/types";
+
+function event(
+	timestamp: string,
+	seq: number,
+	overrides: Partial<ActivityEvent> = {},
+): ActivityEvent {
+	return {
+		id: formatActivityId(timestamp, seq),
+		type: "health_changed",
+		daemon_id: "com.example.a",
+		daemon_url: "https://a.example.com",
+		daemon_owner: "Dana",
+		timestamp,
+		...overrides,
+	};
+}
+
+// Three events a day over four days, with alternating daemons
+const log = Array.from({ length: 12 }, (_, i) =>
+	event(
+		new Date(
+			Date.UTC(2026, 2, 1 + Math.floor(i / 3), 8 + (i % 3)),
+		).toISOString(),
+		i + 1,
+		i % 2
+			? { daemon_id: "com.example.b", daemon_url: "https://b.example.com" }
+			: {},
+	),
+);
+
+// One page read the way RegistryState reads storage: the key range newest first, filtered
+function readPage(query: ActivityQuery): {
+	events: ActivityEvent[];
+	next_cursor?: string;
+} {
+	const limit = clampActivityLimit(query.limit);
+	const { start, end } = activityKeyRange(query);
+	const inRange = log
+		.filter((e) => activityKey(e.id) >= start && activityKey(e.id) < end)
+		.reverse();
+	const events: ActivityEvent[] = [];
+	for (const [i, e] of inRange.entries()) {
+		if (matchesActivityQuery(e, query)) events.push(e);
+		if (events.length === limit) {
+			return {
+				events,
+				next_cursor: i < inRange.length - 1 ? e.id : undefined,
+			};
+		}
+	}
+	return { events };
+}
+
+function readAll(query: ActivityQuery): string[] {
+	const ids: string[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = readPage({ ...query, cursor });
+		ids.push(...page.events.map((e) => e.id));
+		cursor = page.next_cursor;
+	} while (cursor);
+	return ids;
+}
+
+describe("activity IDs", () => {
+	test("combine the UTC day with a zero-padded sequence number", () => {
+		const id = formatActivityId("2026-03-01T23:59:59-02:00", 42);
+		expect(id).toBe("20260302-000000000042");
+		expect(isActivityId(id)).toBe(true);
+		expect(activityKey(id)).toBe("activity:20260302:000000000042");
+		expect(isActivityId("20260302-42")).toBe(false);
+	});
+
+	test("sort as storage keys in sequence order", () => {
+		const keys = log.map((e) => activityKey(e.id));
+		expect([...keys].sort()).toEqual(keys);
+	});
+});
+
+describe("activity paging", () => {
+	test("walks the whole log newest first without gaps or repeats", () => {
+		expect(readAll({ limit: 5 })).toEqual(log.map((e) => e.id).reverse());
+	});
+
+	test("pages a filtered query to the same result as one large page", () => {
+		const query: ActivityQuery = { daemon_id: "COM.EXAMPLE.B", limit: 2 };
+		expect(readAll(query)).toEqual(
+			readPage({ ...query, limit: 200 }).events.map((e) => e.id),
+		);
+		expect(readAll(query)).toHaveLength(6);
+	});
+
+	test("narrows the key range to the since and until days", () => {
+		const since = "2026-03-02T09:00:00Z";
+		const until = "2026-03-03T09:00:00Z";
+		const { start, end } = activityKeyRange({ since, until });
+		expect(start).toBe("activity:20260302:");
+		expect(end).toBe("activity:20260303;");
+		expect(readAll({ since, until })).toEqual(
+			log
+				.filter(
+					(e) =>
+						Date.parse(e.timestamp) >= Date.parse(since) &&
+						Date.parse(e.timestamp) < Date.parse(until),
+				)
+				.map((e) => e.id)
+				.reverse(),
+		);
+	});
+
+	test("ends the range at the cursor", () => {
+		const cursor = log[4].id;
+		expect(activityKeyRange({ cursor }).end).toBe(activityKey(cursor));
+		expect(readPage({ cursor, limit: 200 }).events).toHaveLength(4);
+	});
+
+	test("clamps the page size", () => {
+		expect(clampActivityLimit()).toBe(20);
+		expect(clampActivityLimit(0)).toBe(20);
+		expect(clampActivityLimit(1000)).toBe(200);
+	});
+});
+
+describe("matchesActivityQuery", () => {
+	test("matches daemon_ids, falling back to URLs for events without an ID", () => {
+		const legacy = event("2026-03-01T00:00:00Z", 1, {
+			daemon_id: undefined,
+			daemon_url: "https://B.example.com/",
+		});
+		const query: ActivityQuery = {
+			daemon_ids: ["com.example.b"],
+			daemon_urls: ["https://b.example.com"],
+		};
+		expect(matchesActivityQuery(legacy, query)).toBe(true);
+		expect(matchesActivityQuery(log[1], query)).toBe(true);
+		expect(matchesActivityQuery(log[0], query)).toBe(false);
+	});
+
+	test("filters by type", () => {
+		const announced = event("2026-03-01T00:00:00Z", 1, {
+			type: "daemon_announced",
+		});
+		expect(
+			matchesActivityQuery(announced, { types: ["daemon_announced"] }),
+		).toBe(true);
+		expect(matchesActivityQuery(log[0], { types: ["daemon_announced"] })).toBe(
+			false,
+		);
+	});
+});
+
+describe("parseActivityQuery", () => {
+	test("folds type into types", () => {
+		expect(
+			parseActivityQuery({ type: "daemon_vouched", types: ["daemon_removed"] }),
+		).toEqual({ query: { types: ["daemon_removed", "daemon_vouched"] } });
+	});
+
+	test("rejects a cursor that isn't an event ID", () => {
+		const { query, error } = parseActivityQuery({ cursor: "abc", limit: 0 });
+		expect(query).toBeUndefined();
+		expect(error).toContain("cursor:");
+		expect(error).toContain("limit:");
+	});
+});
@@ -0,0 +1,155 @@
+import { describe, expect, mock, test } from "bun:test";
+
+import {
+	fetchRegistryEntries,
+	getFederatedRegistries,
+	mergeMirroredEntries,
+} from "../src/lib/federation";
+import type { Env } from "../src/types";
+import { daemon } from "./fixtures";
+
+// Peer registries answer daemon_registry_list from these pages, keyed by cursor ("" = first page)
+const peerPages = new Map<string, Record<string, unknown>>();
+mock.module("../src/lib/mcp-client", () => ({
+	callMcpTool: async (
+		_url: string,
+		_transport: string,
+		_name: string,
+		args: Record<string, unknown>,
+	) => {
+		const page = peerPages.get((args.cursor as string) || "");
+		return page ? { text: JSON.stringify(page) } : { error: "HTTP 500" };
+	},
+}));
+
+const PEER_A = "https://registry-a.example.com";
+const PEER_B = "https://registry-b.example.com";
+
+describe("getFederatedRegistries", () => {
+	test("parses, normalizes and dedupes peer URLs in order", () => {
+		const env = {
+			FEDERATED_REGISTRIES: `${PEER_B}/, ftp://files.example.com  not-a-url,${PEER_A}\n${PEER_B}`,
+		} as unknown as Env;
+		expect(getFederatedRegistries(env)).toEqual([PEER_B, PEER_A]);
+		expect(getFederatedRegistries()).toEqual([]);
+	});
+});
+
+describe("fetchRegistryEntries", () => {
+	test("follows next_cursor and keeps only the peer's own active entries", async () => {
+		peerPages.clear();
+		peerPages.set("", {
+			daemons: [
+				{ ...daemon("com.example.a"), verified: true, trust_depth: 0 },
+				{ ...daemon("com.example.echo"), source_registry: PEER_B },
+				{ ...daemon("com.example.gone"), withdrawn_at: "2026-01-01T00:00:00Z" },
+			],
+			next_cursor: "page-2",
+		});
+		peerPages.set("page-2", {
+			daemons: [
+				{ ...daemon("com.example.b"), verified: "yes" },
+				{ id: "com.example.broken", url: "not a url", owner: "x" },
+				{ id: "com.example.noowner", url: "https://noowner.example.com" },
+			],
+		});
+
+		const { entries, error } = await fetchRegistryEntries(PEER_A);
+		expect(error).toBeUndefined();
+		expect(entries?.map((e) => e.id)).toEqual([
+			"com.example.a",
+			"com.example.b",
+		]);
+		expect(entries?.[0]).not.toHaveProperty("trust_depth");
+		expect(entries?.map((e) => [e.verified, e.source_registry])).toEqual([
+			[true, PEER_A],
+			[false, PEER_A],
+		]);
+	});
+
+	test("reports a failed pull instead of returning a partial list", async () => {
+		peerPages.clear();
+		peerPages.set("", {
+			daemons: [daemon("com.example.a")],
+			next_cursor: "missing",
+		});
+		expect(await fetchRegistryEntries(PEER_A)).toEqual({ error: "HTTP 500" });
+
+		peerPages.set("", { entries: [] });
+		expect(await fetchRegistryEntries(PEER_A)).toEqual({
+			error: "daemon_registry_list response has no daemons array",
+		});
+	});
+});
+
+describe("mergeMirroredEntries", () => {
+	const registries = [PEER_A, PEER_B];
+	const mirrored = (
+		id: string,
+		source: string,
+		verified = false,
+		url?: string,
+	) =>
+		daemon(id, {
+			source_registry: source,
+			verified,
+			...(url ? { url } : {}),
+		});
+
+	test("local entries win by ID or URL", () => {
+		const local = [daemon("com.example.a")];
+		const merged = mergeMirroredEntries(
+			local,
+			[
+				mirrored("com.example.a", PEER_A),
+				mirrored("com.example.other", PEER_A, true, "https://a.example.com/"),
+				mirrored("com.example.new", PEER_A),
+			],
+			registries,
+		);
+		expect(merged.map((e) => [e.id, e.source_registry])).toEqual([
+			["com.example.a", undefined],
+			["com.example.new", PEER_A],
+		]);
+	});
+
+	test("between peers, verified wins, then the earlier peer", () => {
+		const merged = mergeMirroredEntries(
+			[],
+			[
+				mirrored("com.example.x", PEER_B),
+				mirrored("com.example.x", PEER_A),
+				mirrored("com.example.y", PEER_A),
+				mirrored("com.example.y", PEER_B, true),
+			],
+			registries,
+		);
+		expect(merged.map((e) => [e.id, e.source_registry])).toEqual([
+			["com.example.x", PEER_A],
+			["com.example.y", PEER_B],
+		]);
+	});
+
+	test("keeps one entry per URL across IDs and drops unconfigured peers", () => {
+		const merged = mergeMirroredEntries(
+			[],
+			[
+				mirrored(
+					"com.example.first",
+					PEER_B,
+					false,
+					"https://same.example.com",
+				),
+				mirrored(
+					"com.example.second",
+					PEER_A,
+					false,
+					"https://SAME.example.com/",
+				),
+				mirrored("com.example.stray", "https://old-peer.example.com"),
+			],
+			registries,
+		);
+		expect(merged.map((e) => e.id)).toEqual(["com.example.second"]);
+	});
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from "bun:test";
+
+import { applySearchFilters, parseSearchFilters } from "../src/lib/filters";
+import type { SearchFilters } from "../src/lib/filters";
+import { daemon } from "./fixtures";
+
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+
+const entries = [
+	daemon("io.saltedkeys.swift", {
+		tags: ["AI", "security"],
+		status: "mcp",
+		healthy: true,
+		verified: true,
+		protocol: "MCP-RPC",
+		detected_protocol: "mcp-streamable-http",
+		announced_at: "2026-01-10T00:00:00Z",
+		last_checked: "2026-03-01T11:30:00Z",
+		trust_depth: 1,
+	}),
+	daemon("io.saltedkeys", {
+		tags: ["ai"],
+		status: "web",
+		healthy: true,
+		announced_at: "2026-02-01T00:00:00Z",
+		last_checked: "2026-02-20T00:00:00Z",
+		trust_depth: 0,
+	}),
+	daemon("io.saltedkeysmore.x", {
+		tags: ["music"],
+		status: "offline",
+		healthy: false,
+		last_checked: "2026-03-01T06:00:00Z",
+	}),
+	daemon("com.example.old", {
+		tags: ["security"],
+		status: "offline",
+		archived_at: "2026-02-15T00:00:00Z",
+		announced_at: "2025-06-01T00:00:00Z",
+	}),
+];
+
+function ids(filters: SearchFilters): string[] {
+	return applySearchFilters(entries, filters, NOW).map((e) => e.id);
+}
+
+describe("parseSearchFilters", () => {
+	test("accepts valid filters", () => {
+		const { filters, error } = parseSearchFilters({
+			tags: ["ai"],
+			tags_mode: "all",
+			last_checked_within: "24h",
+			id_prefix: "io.saltedkeys.*",
+			announced_after: "2026-01-01",
+			max_trust_depth: 2,
+		});
+		expect(error).toBeUndefined();
+		expect(filters?.tags_mode).toBe("all");
+	});
+
+	test("treats missing arguments as no filters", () => {
+		expect(parseSearchFilters(undefined)).toEqual({ filters: {} });
+	});
+
+	test("reports each invalid field by path", () => {
+		const { filters, error } = parseSearchFilters({
+			status: "sleeping",
+			last_checked_within: "24 hours",
+			id_prefix: "io.*.keys",
+			announced_after: "yesterday",
+			max_trust_depth: -1,
+			tags: "ai",
+		});
+		expect(filters).toBeUndefined();
+		for (const field of [
+			"status",
+			"last_checked_within",
+			"id_prefix",
+			"announced_after",
+			"max_trust_depth",
+			"tags",
+		]) {
+			expect(error).toContain(`${field}:`);
+		}
+	});
+});
+
+describe("applySearchFilters", () => {
+	test("hides archived daemons unless asked for", () => {
+		expect(ids({})).not.toContain("com.example.old");
+		expect(ids({ include_archived: true })).toContain("com.example.old");
+		expect(ids({ archived_only: true })).toEqual(["com.example.old"]);
+	});
+
+	test("matches tags case-insensitively, any or all", () => {
+		expect(ids({ tags: ["security", "music"] })).toEqual([
+			"io.saltedkeys.swift",
+			"io.saltedkeysmore.x",
+		]);
+		expect(ids({ tags: ["ai", "security"], tags_mode: "all" })).toEqual([
+			"io.saltedkeys.swift",
+		]);
+		expect(ids({ tag: "AI", exclude_tags: ["Security"] })).toEqual([
+			"io.saltedkeys",
+		]);
+	});
+
+	test("filters by status, health, verification and protocols", () => {
+		expect(ids({ status: "offline" })).toEqual(["io.saltedkeysmore.x"]);
+		expect(ids({ healthy_only: true, verified_only: true })).toEqual([
+			"io.saltedkeys.swift",
+		]);
+		expect(ids({ protocol: "mcp-rpc" })).toEqual(["io.saltedkeys.swift"]);
+		expect(ids({ detected_protocol: "unknown" })).toEqual([
+			"io.saltedkeys",
+			"io.saltedkeysmore.x",
+		]);
+	});
+
+	test("matches an id namespace, not a string prefix", () => {
+		const expected = ["io.saltedkeys.swift", "io.saltedkeys"];
+		expect(ids({ id_prefix: "io.saltedkeys.*" })).toEqual(expected);
+		expect(ids({ id_prefix: "IO.SaltedKeys" })).toEqual(expected);
+	});
+
+	test("bounds announce dates, dropping entries without one", () => {
+		expect(ids({ announced_after: "2026-01-10T00:00:00Z" })).toEqual([
+			"io.saltedkeys.swift",
+			"io.saltedkeys",
+		]);
+		expect(ids({ announced_before: "2026-02-01T00:00:00Z" })).toEqual([
+			"io.saltedkeys.swift",
+		]);
+	});
+
+	test("keeps daemons checked within the duration", () => {
+		expect(ids({ last_checked_within: "1h" })).toEqual(["io.saltedkeys.swift"]);
+		expect(ids({ last_checked_within: "12h" })).toEqual([
+			"io.saltedkeys.swift",
+			"io.saltedkeysmore.x",
+		]);
+		expect(ids({ last_checked_within: "2w" })).toHaveLength(3);
+	});
+
+	test("treats daemons without a trust depth as unreachable", () => {
+		expect(ids({ max_trust_depth: 0 })).toEqual(["io.saltedkeys"]);
+		expect(ids({ max_trust_depth: 5 })).toEqual([
+			"io.saltedkeys.swift",
+			"io.saltedkeys",
+		]);
+	});
+});
@@ -0,0 +1,15 @@
+import type { DaemonEntry } from "../src/types";
+
+// A minimal daemon entry, at the hostname its ID reverses to (com.example.a -> a.example.com)
+export function daemon(
+	id: string,
+	overrides: Partial<DaemonEntry> = {},
+): DaemonEntry {
+	return {
+		id,
+		url: `https://${id.split(".").reverse().join(".")}`,
+		owner: id.split(".").pop() || id,
+		verified: false,
+		...overrides,
+	};
+}
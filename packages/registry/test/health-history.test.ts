@@ -0,0 +1,111 @@
+import { describe, expect, test } from "bun:test";
+
+import { computeUptime, recordHealthSample } from "../src/lib/health-history";
+import type { DaemonEntry, HealthHistory } from "../src/types";
+
+const ID = "com.example.a";
+
+// Fold checks into a fresh history, oldest first
+function record(checks: [string, DaemonEntry["status"]][]): HealthHistory {
+	let history: HealthHistory | null = null;
+	for (const [last_checked, status] of checks) {
+		history = recordHealthSample(history, ID, { last_checked, status });
+	}
+	return history as HealthHistory;
+}
+
+describe("recordHealthSample", () => {
+	test("buckets checks by hour and counts the online ones", () => {
+		const history = record([
+			["2026-03-01T10:05:00Z", "mcp"],
+			["2026-03-01T10:35:00Z", "offline"],
+			["2026-03-01T10:59:59Z", "web"],
+			["2026-03-01T11:00:00Z", "degraded"],
+		]);
+		expect(history.buckets).toEqual([
+			{ hour: "2026-03-01T10:00:00.000Z", checks: 3, online: 2 },
+			{ hour: "2026-03-01T11:00:00.000Z", checks: 1, online: 1 },
+		]);
+	});
+
+	test("records status transitions and the last time online", () => {
+		const history = record([
+			["2026-03-01T10:00:00Z", "mcp"],
+			["2026-03-01T10:30:00Z", "mcp"],
+			["2026-03-01T11:00:00Z", "offline"],
+			["2026-03-01T12:00:00Z", "offline"],
+		]);
+		expect(history.transitions).toEqual([
+			{ at: "2026-03-01T10:00:00Z", from: undefined, to: "mcp" },
+			{ at: "2026-03-01T11:00:00Z", from: "mcp", to: "offline" },
+		]);
+		expect(history.last_status).toBe("offline");
+		expect(history.last_online_at).toBe("2026-03-01T10:30:00Z");
+	});
+
+	test("drops buckets and transitions past the 90-day retention", () => {
+		const history = record([
+			["2025-11-01T00:00:00Z", "mcp"],
+			["2026-03-01T00:00:00Z", "offline"],
+		]);
+		expect(history.buckets.map((b) => b.hour)).toEqual([
+			"2026-03-01T00:00:00.000Z",
+		]);
+		expect(history.transitions).toEqual([
+			{ at: "2026-03-01T00:00:00Z", from: "mcp", to: "offline" },
+		]);
+	});
+
+	test("leaves the previous history untouched", () => {
+		const before = record([["2026-03-01T10:00:00Z", "mcp"]]);
+		const snapshot = structuredClone(before);
+		recordHealthSample(before, ID, {
+			last_checked: "2026-03-01T10:10:00Z",
+			status: "offline",
+		});
+		expect(before).toEqual(snapshot);
+	});
+});
+
+describe("computeUptime", () => {
+	test("reports uptime per window from the buckets that overlap it", () => {
+		const history = record([
+			["2026-02-10T12:00:00Z", "offline"],
+			["2026-02-27T12:00:00Z", "offline"],
+			["2026-03-01T10:00:00Z", "mcp"],
+			["2026-03-01T10:20:00Z", "mcp"],
+			["2026-03-01T10:40:00Z", "offline"],
+		]);
+		const report = computeUptime(
+			ID,
+			history,
+			Date.parse("2026-03-02T10:30:00Z"),
+		);
+		expect(report.checks).toEqual({ "24h": 3, "7d": 4, "30d": 5 });
+		expect(report.uptime).toEqual({ "24h": 66.67, "7d": 50, "30d": 40 });
+		expect(report.current_status).toBe("offline");
+		expect(report.last_online_at).toBe("2026-03-01T10:20:00Z");
+	});
+
+	test("reports null uptime without checks in a window", () => {
+		const report = computeUptime(ID, null);
+		expect(report.uptime).toEqual({ "24h": null, "7d": null, "30d": null });
+		expect(report.checks).toEqual({ "24h": 0, "7d": 0, "30d": 0 });
+		expect(report.transitions).toEqual([]);
+	});
+
+	test("lists only the last 30 days of transitions", () => {
+		const history = record([
+			["2026-01-15T00:00:00Z", "mcp"],
+			["2026-02-20T00:00:00Z", "offline"],
+		]);
+		const report = computeUptime(
+			ID,
+			history,
+			Date.parse("2026-03-01T00:00:00Z"),
+		);
+		expect(report.transitions).toEqual([
+			{ at: "2026-02-20T00:00:00Z", from: "mcp", to: "offline" },
+		]);
+	});
+});
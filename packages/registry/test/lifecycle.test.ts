@@ -0,0 +1,178 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	applyLifecycle,
+	getLifecyclePolicy,
+	isCheckDue,
+	lifecycleEvent,
+} from "../src/lib/lifecycle";
+import type { DaemonEntry, Env } from "../src/types";
+import { daemon } from "./fixtures";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const NOW = Date.parse("2026-03-01T12:00:00Z");
+const policy = getLifecyclePolicy();
+
+// Apply consecutive offline results an hour apart, starting at NOW
+function failRepeatedly(entry: DaemonEntry, times: number): DaemonEntry {
+	let current = entry;
+	for (let i = 0; i < times; i++) {
+		const now = NOW + i * HOUR_MS;
+		const { update } = applyLifecycle(
+			current,
+			{ status: "offline", last_checked: new Date(now).toISOString() },
+			policy,
+			now,
+		);
+		current = { ...current, ...update };
+	}
+	return current;
+}
+
+describe("getLifecyclePolicy", () => {
+	test("defaults to 7 days stale, 30 days archive, 24 hours max backoff", () => {
+		expect(policy).toEqual({
+			staleAfterMs: 7 * DAY_MS,
+			archiveAfterMs: 30 * DAY_MS,
+			maxBackoffMs: 24 * HOUR_MS,
+		});
+	});
+
+	test("takes positive overrides and ignores invalid ones", () => {
+		const env = {
+			STALE_AFTER_DAYS: "3",
+			ARCHIVE_AFTER_DAYS: "-1",
+			MAX_BACKOFF_HOURS: "soon",
+		} as unknown as Env;
+		expect(getLifecyclePolicy(env)).toEqual({
+			staleAfterMs: 3 * DAY_MS,
+			archiveAfterMs: 30 * DAY_MS,
+			maxBackoffMs: 24 * HOUR_MS,
+		});
+	});
+});
+
+describe("applyLifecycle", () => {
+	test("doubles the backoff on each offline result up to the cap", () => {
+		const backoffs: number[] = [];
+		let current = daemon("com.example.a");
+		for (let i = 0; i < 7; i++) {
+			const { update } = applyLifecycle(
+				current,
+				{ status: "offline" },
+				policy,
+				NOW,
+			);
+			backoffs.push((Date.parse(update.next_check_at || "") - NOW) / HOUR_MS);
+			current = { ...current, ...update };
+		}
+		expect(backoffs).toEqual([1, 2, 4, 8, 16, 24, 24]);
+		expect(current.consecutive_failures).toBe(7);
+	});
+
+	test("keeps the first offline time across failures", () => {
+		const entry = failRepeatedly(daemon("com.example.a"), 3);
+		expect(entry.offline_since).toBe("2026-03-01T12:00:00.000Z");
+		expect(entry.stale).toBe(false);
+		expect(entry.archived_at).toBeUndefined();
+	});
+
+	test("flags stale, then archives once, past the policy periods", () => {
+		const offline = daemon("com.example.a", {
+			status: "offline",
+			consecutive_failures: 3,
+			offline_since: new Date(NOW - 8 * DAY_MS).toISOString(),
+		});
+		const stale = applyLifecycle(offline, { status: "offline" }, policy, NOW);
+		expect(stale.update.stale).toBe(true);
+		expect(stale.update.archived_at).toBeUndefined();
+		expect(stale.transition).toBeUndefined();
+
+		const archivedAt = NOW + 22 * DAY_MS;
+		const archived = applyLifecycle(
+			{ ...offline, ...stale.update },
+			{ status: "offline" },
+			policy,
+			archivedAt,
+		);
+		expect(archived.transition).toBe("archived");
+		expect(archived.update.archived_at).toBe(
+			new Date(archivedAt).toISOString(),
+		);
+
+		const later = applyLifecycle(
+			{ ...offline, ...archived.update },
+			{ status: "offline" },
+			policy,
+			archivedAt + DAY_MS,
+		);
+		expect(later.transition).toBeUndefined();
+		expect(later.update.archived_at).toBe(archived.update.archived_at);
+	});
+
+	test("resets the backoff and revives an archived daemon when it is back", () => {
+		const archived = daemon("com.example.a", {
+			status: "offline",
+			consecutive_failures: 40,
+			offline_since: "2026-01-01T00:00:00Z",
+			next_check_at: "2026-03-02T00:00:00Z",
+			stale: true,
+			archived_at: "2026-01-31T00:00:00Z",
+		});
+		const { update, transition } = applyLifecycle(
+			archived,
+			{ status: "web" },
+			policy,
+			NOW,
+		);
+		expect(transition).toBe("revived");
+		expect(update).toEqual({
+			status: "web",
+			consecutive_failures: 0,
+			offline_since: undefined,
+			next_check_at: undefined,
+			stale: false,
+			archived_at: undefined,
+		});
+
+		expect(
+			applyLifecycle(daemon("com.example.b"), { status: "mcp" }, policy, NOW)
+				.transition,
+		).toBeUndefined();
+	});
+});
+
+describe("isCheckDue", () => {
+	test("is due without a backoff, or within five minutes of it", () => {
+		expect(isCheckDue(daemon("com.example.a"), NOW)).toBe(true);
+		const next_check_at = new Date(NOW + 4 * 60 * 1000).toISOString();
+		expect(isCheckDue(daemon("com.example.a", { next_check_at }), NOW)).toBe(
+			true,
+		);
+		expect(
+			isCheckDue(daemon("com.example.a", { next_check_at }), NOW - HOUR_MS),
+		).toBe(false);
+	});
+});
+
+describe("lifecycleEvent", () => {
+	test("describes archive and revive transitions", () => {
+		const entry = daemon("com.example.a", {
+			archived_at: "2026-01-31T00:00:00Z",
+		});
+		expect(
+			lifecycleEvent(entry, "archived", {
+				offline_since: "2026-01-01T00:00:00Z",
+			}),
+		).toMatchObject({
+			type: "daemon_archived",
+			daemon_id: "com.example.a",
+			details: { offline_since: "2026-01-01T00:00:00Z" },
+		});
+		expect(lifecycleEvent(entry, "revived", { status: "mcp" })).toMatchObject({
+			type: "daemon_revived",
+			details: { archived_at: "2026-01-31T00:00:00Z", status: "mcp" },
+		});
+	});
+});
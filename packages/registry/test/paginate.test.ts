@@ -0,0 +1,173 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	paginateByKey,
+	paginateEntries,
+	parsePageOptions,
+	searchPageShape,
+} from "../src/lib/paginate";
+import type { DaemonEntry, PageOptions } from "../src/types";
+import { daemon } from "./fixtures";
+
+const entries = [
+	daemon("com.example.delta", {
+		owner: "Bob",
+		announced_at: "2026-01-02T00:00:00Z",
+	}),
+	daemon("com.example.alpha", {
+		owner: "alice",
+		announced_at: "2026-01-03T00:00:00Z",
+	}),
+	daemon("com.example.charlie", {
+		owner: "bob",
+		announced_at: "2026-01-01T00:00:00Z",
+	}),
+	daemon("com.example.bravo", {
+		owner: "Alice",
+		announced_at: "2026-01-02T00:00:00Z",
+	}),
+	daemon("com.example.echo", { owner: "carol" }),
+];
+
+// Follow next_cursor until the last page, returning the IDs in order
+function collectIds(list: DaemonEntry[], options: PageOptions): string[] {
+	const ids: string[] = [];
+	let cursor: string | undefined;
+	do {
+		const page = paginateEntries(list, { ...options, cursor });
+		ids.push(...page.entries.map((e) => e.id));
+		cursor = page.next_cursor;
+	} while (cursor);
+	return ids;
+}
+
+describe("paginateEntries", () => {
+	test("sorts by id ascending by default", () => {
+		const page = paginateEntries(entries);
+		expect(page.entries.map((e) => e.id)).toEqual([
+			"com.example.alpha",
+			"com.example.bravo",
+			"com.example.charlie",
+			"com.example.delta",
+			"com.example.echo",
+		]);
+		expect(page.total).toBe(5);
+		expect(page.next_cursor).toBeUndefined();
+	});
+
+	test("pages cover every entry once, in the unpaged order", () => {
+		for (const sort of ["id", "owner", "announced_at"] as const) {
+			for (const order of ["asc", "desc"] as const) {
+				const full = paginateEntries(entries, { sort, order, limit: 200 });
+				expect(collectIds(entries, { sort, order, limit: 2 })).toEqual(
+					full.entries.map((e) => e.id),
+				);
+			}
+		}
+	});
+
+	test("breaks ties on the sort value by id", () => {
+		const page = paginateEntries(entries, { sort: "owner" });
+		expect(page.entries.map((e) => e.id)).toEqual([
+			"com.example.alpha",
+			"com.example.bravo",
+			"com.example.charlie",
+			"com.example.delta",
+			"com.example.echo",
+		]);
+	});
+
+	test("keeps later pages stable when earlier entries are removed", () => {
+		const first = paginateEntries(entries, { limit: 2 });
+		const remaining = entries.filter((e) => e.id !== "com.example.alpha");
+		const second = paginateEntries(remaining, {
+			limit: 2,
+			cursor: first.next_cursor,
+		});
+		expect(second.entries.map((e) => e.id)).toEqual([
+			"com.example.charlie",
+			"com.example.delta",
+		]);
+	});
+
+	test("round-trips owners outside Latin-1 through the cursor", () => {
+		const list = [
+			daemon("com.example.a", { owner: "Zoë 🚀" }),
+			daemon("com.example.b", { owner: "Ünal" }),
+			daemon("com.example.c", { owner: "Łukasz" }),
+		];
+		expect(collectIds(list, { sort: "owner", limit: 1 })).toEqual(
+			paginateEntries(list, { sort: "owner" }).entries.map((e) => e.id),
+		);
+	});
+
+	test("rejects a cursor from a different ordering", () => {
+		const { next_cursor } = paginateEntries(entries, { limit: 2 });
+		expect(() =>
+			paginateEntries(entries, { cursor: next_cursor, order: "desc" }),
+		).toThrow("Cursor was created with a different sort or order");
+	});
+
+	test("rejects a malformed cursor", () => {
+		expect(() => paginateEntries(entries, { cursor: "not a cursor" })).toThrow(
+			"Invalid cursor",
+		);
+	});
+
+	test("defaults relevance to descending score", () => {
+		const scored = [
+			{ ...daemon("com.example.low"), score: 2 },
+			{ ...daemon("com.example.high"), score: 10.5 },
+			{ ...daemon("com.example.mid"), score: 9 },
+		];
+		const page = paginateEntries(scored, { sort: "relevance" });
+		expect(page.entries.map((e) => e.id)).toEqual([
+			"com.example.high",
+			"com.example.mid",
+			"com.example.low",
+		]);
+	});
+});
+
+describe("paginateByKey", () => {
+	test("pages in key order and resumes after the last key", () => {
+		const items = ["c", "a", "e", "b", "d"];
+		const first = paginateByKey(items, (k) => k, { limit: 2 });
+		expect(first.items).toEqual(["a", "b"]);
+		const second = paginateByKey(
+			items.filter((k) => k !== "a"),
+			(k) => k,
+			{ limit: 2, cursor: first.next_cursor },
+		);
+		expect(second.items).toEqual(["c", "d"]);
+		expect(second.total).toBe(4);
+	});
+
+	test("rejects an entry cursor", () => {
+		const { next_cursor } = paginateEntries(entries, { limit: 1 });
+		expect(() =>
+			paginateByKey(["a"], (k) => k, { cursor: next_cursor }),
+		).toThrow("Invalid cursor");
+	});
+});
+
+describe("parsePageOptions", () => {
+	test("accepts valid paging arguments and ignores others", () => {
+		expect(
+			parsePageOptions({ limit: 10, sort: "owner", order: "desc", query: "x" }),
+		).toEqual({ page: { limit: 10, sort: "owner", order: "desc" } });
+	});
+
+	test("reports every invalid argument", () => {
+		const { page, error } = parsePageOptions({ limit: 500, sort: "relevance" });
+		expect(page).toBeUndefined();
+		expect(error).toContain("limit:");
+		expect(error).toContain("sort:");
+	});
+
+	test("allows search-only sort fields with the search shape", () => {
+		expect(parsePageOptions({ sort: "relevance" }, searchPageShape)).toEqual({
+			page: { sort: "relevance" },
+		});
+	});
+});
@@ -0,0 +1,110 @@
+import { describe, expect, test } from "bun:test";
+
+import {
+	applyContentMatches,
+	rankEntries,
+	scoreEntry,
+} from "../src/lib/search";
+import type { ContentMatch } from "../src/types";
+import { daemon } from "./fixtures";
+
+describe("scoreEntry", () => {
+	test("weights an exact token by its field", () => {
+		expect(
+			scoreEntry(
+				daemon("com.example.swift", { owner: "Dana", url: "https://dana.dev" }),
+				"swift",
+			),
+		).toEqual({
+			score: 20,
+			matched_fields: ["id"],
+		});
+		expect(
+			scoreEntry(daemon("com.example.a", { role: "swift developer" }), "swift"),
+		).toEqual({ score: 6, matched_fields: ["role"] });
+	});
+
+	test("ranks an exact token above a partial one", () => {
+		const exact = scoreEntry(daemon("com.example.a", { tags: ["ai"] }), "ai");
+		const partial = scoreEntry(
+			daemon("com.example.a", { tags: ["aiops"] }),
+			"ai",
+		);
+		expect(exact.score).toBe(12);
+		expect(partial.score).toBe(6);
+	});
+
+	test("tolerates a typo in short queries only", () => {
+		const entry = daemon("com.example.a", {
+			focus: ["security research"],
+			role: "security engineer",
+		});
+		expect(scoreEntry(entry, "securty").score).toBeGreaterThan(0);
+		expect(scoreEntry(entry, "securty research engineer").score).toBe(0);
+	});
+
+	test("requires every query token to match some field", () => {
+		const entry = daemon("com.example.a", { tags: ["security"] });
+		expect(scoreEntry(entry, "security").score).toBe(12);
+		expect(scoreEntry(entry, "security music")).toEqual({
+			score: 0,
+			matched_fields: [],
+		});
+	});
+
+	test("boosts a multi-word query found verbatim", () => {
+		const phrase = daemon("com.example.a", { role: "threat intel analyst" });
+		const scattered = daemon("com.example.b", {
+			role: "intel for threat teams",
+		});
+		expect(scoreEntry(phrase, "threat intel").score).toBeGreaterThan(
+			scoreEntry(scattered, "threat intel").score,
+		);
+	});
+
+	test("scores nothing for an empty query", () => {
+		expect(scoreEntry(daemon("com.example.a"), " - ")).toEqual({
+			score: 0,
+			matched_fields: [],
+		});
+	});
+});
+
+describe("rankEntries", () => {
+	test("orders by score, then id, and drops non-matches", () => {
+		const entries = [
+			daemon("com.example.zed", { tags: ["security"] }),
+			daemon("com.example.other", { tags: ["music"] }),
+			daemon("com.example.security", { owner: "Sam" }),
+			daemon("com.example.abe", { tags: ["security"] }),
+		];
+		expect(rankEntries(entries, "security").map((e) => e.id)).toEqual([
+			"com.example.security",
+			"com.example.abe",
+			"com.example.zed",
+		]);
+	});
+});
+
+describe("applyContentMatches", () => {
+	const match: ContentMatch = { section: "About", snippet: "..." };
+
+	test("keeps only entries with content matches and adds their weight", () => {
+		const ranked = rankEntries(
+			[daemon("com.example.a", { tags: ["ai"] }), daemon("com.example.b")],
+			"ai",
+		);
+		const result = applyContentMatches(
+			[...ranked, daemon("com.example.c")],
+			new Map([
+				["com.example.a", [match]],
+				["com.example.c", [match, match, match]],
+			]),
+		);
+		expect(result.map((e) => [e.id, e.score])).toEqual([
+			["com.example.a", 17],
+			["com.example.c", 15],
+		]);
+		expect(result[1].content_matches).toHaveLength(3);
+	});
+});
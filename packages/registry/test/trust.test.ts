@@ -0,0 +1,156 @@
+import { beforeAll, describe, expect, test } from "bun:test";
+
+import seedRegistry from "../seed-registry.json";
+import {
+	computeTrust,
+	generateVouchSigningKey,
+	importVouchKey,
+	isTrustRoot,
+	signVouch,
+	trustPath,
+	verifyVouch,
+	withTrustDepth,
+} from "../src/lib/trust";
+import type { DaemonEntry, Vouch } from "../src/types";
+import { daemon } from "./fixtures";
+
+// The bundled seed tagged upstream is the root of the graph
+const root = (seedRegistry.entries as unknown as DaemonEntry[]).find((e) =>
+	e.tags?.includes("upstream"),
+) as DaemonEntry;
+
+const entries = [
+	root,
+	daemon("com.example.a", { verified: true }),
+	daemon("com.example.b", { verified: true }),
+	daemon("com.example.c"),
+	daemon("com.example.d"),
+];
+
+let privateKey: CryptoKey;
+let publicKey: CryptoKey;
+
+beforeAll(async () => {
+	const pair = await generateVouchSigningKey();
+	privateKey = await importVouchKey(pair.private_key, "sign");
+	publicKey = await importVouchKey(pair.public_key, "verify");
+});
+
+function byId(id: string): DaemonEntry {
+	return entries.find((e) => e.id === id) as DaemonEntry;
+}
+
+// A signed edge between two of the entries above
+async function vouch(
+	voucherId: string,
+	targetId: string,
+	key = privateKey,
+): Promise<Vouch> {
+	return signVouch(key, {
+		voucher_id: voucherId,
+		voucher_url: byId(voucherId).url,
+		target_id: targetId,
+		target_url: byId(targetId).url,
+		created_at: "2026-03-01T00:00:00Z",
+	});
+}
+
+describe("vouch signatures", () => {
+	test("verify against the registry key and fail once the edge changes", async () => {
+		const edge = await vouch(root.id, "com.example.a");
+		expect(await verifyVouch(publicKey, edge)).toBe(true);
+		expect(
+			await verifyVouch(publicKey, { ...edge, target_id: "com.example.b" }),
+		).toBe(false);
+		expect(await verifyVouch(publicKey, { ...edge, signature: "zz" })).toBe(
+			false,
+		);
+	});
+});
+
+describe("computeTrust", () => {
+	test("counts vouch hops from the roots along shortest paths", async () => {
+		const trust = await computeTrust(
+			entries,
+			[
+				await vouch(root.id, "com.example.a"),
+				await vouch("com.example.a", "com.example.b"),
+				await vouch("com.example.b", "com.example.c"),
+				await vouch(root.id, "com.example.c"),
+			],
+			publicKey,
+		);
+		expect(isTrustRoot(root.id)).toBe(true);
+		expect(Object.fromEntries(trust)).toEqual({
+			[root.id]: { depth: 0 },
+			"com.example.a": { depth: 1, via: root.id },
+			"com.example.b": { depth: 2, via: "com.example.a" },
+			"com.example.c": { depth: 1, via: root.id },
+		});
+		expect(trustPath(trust, "com.example.b")).toEqual([
+			root.id,
+			"com.example.a",
+			"com.example.b",
+		]);
+		expect(trustPath(trust, "com.example.d")).toEqual([]);
+	});
+
+	test("ignores edges signed with another key, or without a key to check", async () => {
+		const other = await generateVouchSigningKey();
+		const forged = await vouch(
+			root.id,
+			"com.example.a",
+			await importVouchKey(other.private_key, "sign"),
+		);
+		expect((await computeTrust(entries, [forged], publicKey)).size).toBe(1);
+
+		const genuine = await vouch(root.id, "com.example.a");
+		expect((await computeTrust(entries, [genuine])).size).toBe(1);
+	});
+
+	test("ignores unverified vouchers and vouchers that moved", async () => {
+		const fromUnverified = [
+			await vouch(root.id, "com.example.c"),
+			await vouch("com.example.c", "com.example.d"),
+		];
+		expect(
+			(await computeTrust(entries, fromUnverified, publicKey)).has(
+				"com.example.d",
+			),
+		).toBe(false);
+
+		const chain = [
+			await vouch(root.id, "com.example.a"),
+			await vouch("com.example.a", "com.example.b"),
+		];
+		const moved = entries.map((e) =>
+			e.id === "com.example.a" ? { ...e, url: "https://elsewhere.example" } : e,
+		);
+		const trust = await computeTrust(moved, chain, publicKey);
+		expect(trust.has("com.example.a")).toBe(true);
+		expect(trust.has("com.example.b")).toBe(false);
+	});
+
+	test("ignores edges to daemons that aren't listed", async () => {
+		const edge = await vouch(root.id, "com.example.a");
+		const listed = entries.filter((e) => e.id !== "com.example.a");
+		expect((await computeTrust(listed, [edge], publicKey)).size).toBe(1);
+	});
+});
+
+describe("withTrustDepth", () => {
+	test("sets the depth on reachable entries and clears stale ones", async () => {
+		const trust = await computeTrust(
+			entries,
+			[await vouch(root.id, "com.example.a")],
+			publicKey,
+		);
+		const stale = entries.map((e) => ({ ...e, trust_depth: 7 }));
+		// Unreachable entries lose the property rather than keeping a stale depth
+		expect(
+			withTrustDepth(stale, trust).map((e) =>
+				"trust_depth" in e ? e.trust_depth : null,
+			),
+		).toEqual([0, 1, null, null, null]);
+	});
+});
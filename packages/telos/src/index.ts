@@ -2,8 +2,17 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { McpAgent } from "agents/mcp";
 import { z } from "zod";
 
-import { getDaemonSections, SECTION_MAP } from "./lib/daemon-md";
-import { PERSONAL_TOOLS, META_TOOLS, getOrientation, getMcpConfig } from "./tools/personal";
+import {
+	getDaemonSections,
+	parseKnownDaemons,
+	SECTION_MAP,
+} from "./lib/daemon-md";
+import {
+	PERSONAL_TOOLS,
+	META_TOOLS,
+	getOrientation,
+	getMcpConfig,
+} from "./tools/personal";
 
 const TOOLS = [...META_TOOLS, ...PERSONAL_TOOLS];
 
@@ -27,14 +36,14 @@ function jsonRpcResponse(text: string, id: any): Response {
 			result: { content: [{ type: "text", text }] },
 			id,
 		}),
-		{ headers: corsHeaders }
+		{ headers: corsHeaders },
 	);
 }
 
 function jsonRpcError(code: number, message: string, id: any): Response {
 	return new Response(
 		JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id }),
-		{ headers: corsHeaders }
+		{ headers: corsHeaders },
 	);
 }
 
@@ -47,7 +56,7 @@ async function handleJsonRpc(body: any): Promise<Response> {
 		if (method === "tools/list") {
 			return new Response(
 				JSON.stringify({ jsonrpc: "2.0", result: { tools: TOOLS }, id }),
-				{ headers: corsHeaders }
+				{ headers: corsHeaders },
 			);
 		}
 
@@ -71,19 +80,31 @@ async function handleJsonRpc(body: any): Promise<Response> {
 
 			// get_section
 			if (toolName === "get_section") {
-				const sectionName = params?.arguments?.section?.toUpperCase().replace(/\s+/g, "_");
+				const sectionName = params?.arguments?.section
+					?.toUpperCase()
+					.replace(/\s+/g, "_");
 				const content = sections[sectionName];
 				if (!content) {
 					const available = Object.keys(sections).join(", ");
-					return jsonRpcResponse(`Section "${sectionName}" not found. Available: ${available}`, id);
+					return jsonRpcResponse(
+						`Section "${sectionName}" not found. Available: ${available}`,
+						id,
+					);
 				}
 				return jsonRpcResponse(content, id);
 			}
 
+			// get_known_daemons
+			if (toolName === "get_known_daemons") {
+				const daemons = parseKnownDaemons(sections.KNOWN_DAEMONS);
+				return jsonRpcResponse(JSON.stringify({ daemons }, null, 2), id);
+			}
+
 			// Standard personal tools
 			const sectionKey = SECTION_MAP[toolName];
 			if (sectionKey) {
-				const content = sections[sectionKey] || `No ${sectionKey.toLowerCase()} found`;
+				const content =
+					sections[sectionKey] || `No ${sectionKey.toLowerCase()} found`;
 				return jsonRpcResponse(content, id);
 			}
 
@@ -105,18 +126,34 @@ export class TelosMCP extends McpAgent {
 
 	async init() {
 		// Meta tools
-		this.server.tool("get_orientation", "START HERE - Learn about Swift's daemon", {}, async () => {
-			return { content: [{ type: "text", text: getOrientation() }] };
-		});
+		this.server.tool(
+			"get_orientation",
+			"START HERE - Learn about Swift's daemon",
+			{},
+			async () => {
+				return { content: [{ type: "text", text: getOrientation() }] };
+			},
+		);
 
-		this.server.tool("get_mcp_config", "Get MCP configuration snippet", {}, async () => {
-			return { content: [{ type: "text", text: JSON.stringify(getMcpConfig(), null, 2) }] };
-		});
+		this.server.tool(
+			"get_mcp_config",
+			"Get MCP configuration snippet",
+			{},
+			async () => {
+				return {
+					content: [
+						{ type: "text", text: JSON.stringify(getMcpConfig(), null, 2) },
+					],
+				};
+			},
+		);
 
 		// get_all
 		this.server.tool("get_all", "Get all daemon information", {}, async () => {
 			const sections = await getDaemonSections();
-			return { content: [{ type: "text", text: JSON.stringify(sections, null, 2) }] };
+			return {
+				content: [{ type: "text", text: JSON.stringify(sections, null, 2) }],
+			};
 		});
 
 		// get_section
@@ -129,21 +166,58 @@ export class TelosMCP extends McpAgent {
 				const normalizedSection = section.toUpperCase().replace(/\s+/g, "_");
 				const content = sections[normalizedSection];
 				if (!content) {
-					return { content: [{ type: "text", text: `Section not found. Available: ${Object.keys(sections).join(", ")}` }] };
+					return {
+						content: [
+							{
+								type: "text",
+								text: `Section not found. Available: ${Object.keys(sections).join(", ")}`,
+							},
+						],
+					};
 				}
 				return { content: [{ type: "text", text: content }] };
-			}
+			},
+		);
+
+		// get_known_daemons
+		this.server.tool(
+			"get_known_daemons",
+			"List other daemons this daemon knows",
+			{},
+			async () => {
+				const sections = await getDaemonSections();
+				const daemons = parseKnownDaemons(sections.KNOWN_DAEMONS);
+				return {
+					content: [
+						{ type: "text", text: JSON.stringify({ daemons }, null, 2) },
+					],
+				};
+			},
 		);
 
 		// Register personal tools
 		for (const tool of PERSONAL_TOOLS) {
-			if (tool.name === "get_all" || tool.name === "get_section") continue;
+			if (
+				tool.name === "get_all" ||
+				tool.name === "get_section" ||
+				tool.name === "get_known_daemons"
+			)
+				continue;
 
 			const sectionKey = SECTION_MAP[tool.name];
 			if (sectionKey) {
 				this.server.tool(tool.name, tool.description, {}, async () => {
 					const sections = await getDaemonSections();
-					return { content: [{ type: "text", text: sections[sectionKey] || `No ${sectionKey.toLowerCase()} found` }] };
+					return {
+						content: [
+							{
+								type: "text",
+								text:
+									sections[sectionKey] ||
+									`No ${sectionKey.toLowerCase()} found`,
+							},
+						],
+					};
 				});
 			}
 		}
@@ -166,14 +240,21 @@ export default {
 		}
 
 		// JSON-RPC handler
-		if ((url.pathname === "/" || url.pathname === "/mcp") && request.method === "POST") {
+		if (
+			(url.pathname === "/" || url.pathname === "/mcp") &&
+			request.method === "POST"
+		) {
 			try {
 				const body = await request.json();
 				return handleJsonRpc(body);
 			} catch {
 				return new Response(
-					JSON.stringify({ jsonrpc: "2.0", error: { code: -32700, message: "Parse error" }, id: null }),
-					{ headers: { "Content-Type": "application/json" } }
+					JSON.stringify({
+						jsonrpc: "2.0",
+						error: { code: -32700, message: "Parse error" },
+						id: null,
+					}),
+					{ headers: { "Content-Type": "application/json" } },
 				);
 			}
 		}
@@ -187,10 +268,13 @@ export default {
 		if (url.pathname === "/health") {
 			return new Response(
 				JSON.stringify({ status: "ok", service: "telos-daemon" }),
-				{ headers: { "Content-Type": "application/json" } }
+				{ headers: { "Content-Type": "application/json" } },
 			);
 		}
 
-		return new Response("Swift's Personal Daemon (Telos). POST to / for JSON-RPC or connect to /sse for SSE transport.", { status: 200 });
+		return new Response(
+			"Swift's Personal Daemon (Telos). POST to / for JSON-RPC or connect to /sse for SSE transport.",
+			{ status: 200 },
+		);
 	},
 };
@@ -2,7 +2,10 @@
 const DAEMON_MD_URL = "https://saltedkeys.pages.dev/daemon.md";
 
 // Cache for parsed daemon data
-let daemonCache: { sections: Record<string, string>; lastFetch: number } | null = null;
+let daemonCache: {
+	sections: Record<string, string>;
+	lastFetch: number;
+} | null = null;
 const CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 // Parse daemon.md content into sections
@@ -73,3 +76,28 @@ export const SECTION_MAP: Record<string, string> = {
 	get_predictions: "PREDICTIONS",
 	get_philosophy: "PHILOSOPHY",
 };
+
+// A peer daemon listed in the [KNOWN_DAEMONS] section
+export interface KnownDaemon {
+	url: string;
+	mcp_url?: string;
+	owner?: string;
+}
+
+// Parse [KNOWN_DAEMONS] lines of the form "- <url> [<mcp_url>] [owner name]"
+export function parseKnownDaemons(content: string | undefined): KnownDaemon[] {
+	const daemons: KnownDaemon[] = [];
+	for (const line of (content || "").split("\n")) {
+		const [url, ...rest] = line
+			.replace(/^\s*[-*]\s*/, "")
+			.trim()
+			.split(/\s+/);
+		if (!url || !/^https?:\/\//.test(url)) continue;
+
+		const mcpUrl =
+			rest[0] && /^https?:\/\//.test(rest[0]) ? rest.shift() : undefined;
+		const owner = rest.join(" ").trim();
+		daemons.push({ url, mcp_url: mcpUrl, owner: owner || undefined });
+	}
+	return daemons;
+}